@@ -1,15 +1,124 @@
 import chalk from 'chalk';
 import ora from 'ora';
+import * as path from 'path';
 import { OSDetector } from './utils/OSDetector';
-import { ConfigManager, CleanupConfig } from './utils/ConfigManager';
+import { ConfigManager, CleanupConfig, DuplicateAction } from './utils/ConfigManager';
 import { Logger } from './utils/Logger';
 import { ReportGenerator } from './utils/ReportGenerator';
-import { TempCleaner } from './modules/TempCleaner';
-import { CacheCleaner } from './modules/CacheCleaner';
-import { BrowserCleaner } from './modules/BrowserCleaner';
-import { TrashCleaner } from './modules/TrashCleaner';
-import { DownloadsOrganizer } from './modules/DownloadsOrganizer';
-import { LargeFileFinder } from './modules/LargeFileFinder';
+import { ReportFormat } from './utils/reports/ReportRenderer';
+import { QuarantineManager } from './utils/QuarantineManager';
+import { OperationJournal } from './utils/OperationJournal';
+import { CleanupPlan, CleanupPlanFile } from './utils/CleanupPlan';
+import { BaseCleaner, CleanerContext } from './modules/BaseCleaner';
+import { PlanApplier } from './modules/PlanApplier';
+import { OpenFileDetector } from './utils/OpenFileDetector';
+import { PathGuard, PathRefusal } from './utils/PathGuard';
+import { ExclusionMatcher } from './utils/ExclusionMatcher';
+import { FileWalker, WalkerStats } from './utils/FileWalker';
+import { ScanIndex } from './utils/ScanIndex';
+import { SpaceTracker } from './utils/SpaceTracker';
+import { TaskRegistry } from './TaskRegistry';
+import { DevArtifactCleaner } from './modules/DevArtifactCleaner';
+import { DuplicateFinder } from './modules/DuplicateFinder';
+import { formatBytes } from './utils/formatBytes';
+
+export interface SkippedItem {
+  path: string;
+  reason: string;
+}
+
+export interface RuleResult {
+  name: string;
+  action: string;
+  filesMatched: number;
+  filesProcessed: number;
+  spaceSaved: number;
+}
+
+export interface PackageCacheResult {
+  ecosystem: string;
+  path: string;
+  itemsEvicted: number;
+  spaceSaved: number;
+}
+
+export interface TrashVolumeResult {
+  mountPoint: string;
+  path: string;
+  items: number; // in the trash before cleaning
+  size: number;
+  itemsDeleted: number;
+  spaceSaved: number;
+}
+
+export interface BrowserProfileResult {
+  browser: string;
+  profile: string; // profile folder name
+  name: string; // name shown by the browser
+  path: string;
+  selected: boolean; // false when left out by browsers.profiles
+  skippedReason?: string; // set when the browser was using the profile
+  filesDeleted: number;
+  spaceSaved: number;
+}
+
+export interface BrowserDataResult {
+  browser: string;
+  profile: string;
+  name: string;
+  historyDeleted: number; // visits
+  cookiesDeleted: number;
+  sitesCleared: number; // sites whose stored data was deleted
+  spaceSaved: number;
+  skippedReason?: string; // set when the browser was using the profile
+}
+
+export interface DuplicateFile {
+  path: string;
+  mtimeMs: number;
+  ino: number;
+  dev: number;
+}
+
+export interface DuplicateSet {
+  hash: string;
+  size: number;
+  files: DuplicateFile[];
+  wastedBytes: number; // size times the number of copies beyond the first, hardlinks excluded
+}
+
+export interface DevProject {
+  path: string;
+  type: string;
+  lastActivity: Date;
+  activitySource: 'git' | 'files';
+  artifacts: Array<{ path: string; size: number }>;
+  size: number;
+}
+
+export interface TaskStats {
+  elapsedMs: number;
+  entriesVisited: number;
+  statCalls: number;
+}
+
+export interface AffectedFile {
+  path: string;
+  action: 'delete' | 'rmdir' | 'move' | 'link';
+  size: number;
+  destination?: string; // move target, or the file a link now points at
+  quarantined?: boolean;
+}
+
+// Space given back on one filesystem over the whole run
+export interface ReclaimedSpace {
+  mountPoint: string;
+  device: number;
+  estimated: number; // allocated blocks of what was deleted, hardlinked files only once every link is gone
+  actual?: number; // change in free space, unknown in dry runs
+  freeBefore?: number;
+  freeAfter?: number;
+}
 
 export interface CleanupResult {
   task: string;
@@ -17,20 +126,51 @@ export interface CleanupResult {
   spaceSaved: number;
   filesOrganized?: number;
   largeFiles?: Array<{ path: string; size: number }>;
+  rules?: RuleResult[];
+  devProjects?: DevProject[];
+  duplicates?: DuplicateSet[];
+  filesLinked?: number;
+  packageCaches?: PackageCacheResult[];
+  trashVolumes?: TrashVolumeResult[];
+  browserProfiles?: BrowserProfileResult[];
+  browserData?: BrowserDataResult[];
+  thumbnailsKept?: number; // thumbnails whose source is unchanged or cannot be checked
+  files?: AffectedFile[]; // what the task deleted, moved or hardlinked
+  skipped?: SkippedItem[];
+  refusals?: PathRefusal[];
+  stats?: TaskStats;
   errors: string[];
 }
 
 export class CleanupManager {
   private results: CleanupResult[] = [];
   private osType: string;
+  private runId: string;
+  private quarantine: QuarantineManager;
+  private journal: OperationJournal;
+  private plan?: CleanupPlan;
+  private openFiles = new OpenFileDetector();
+  private guard = new PathGuard();
+  private exclusions: ExclusionMatcher;
+  private walker: FileWalker;
+  private scanIndex?: ScanIndex;
+  private space = new SpaceTracker();
+  private reclaimed: ReclaimedSpace[] = [];
   
   constructor(
     private config: CleanupConfig,
     private logger: Logger,
     private dryRun: boolean = false,
-    private debug: boolean = false
+    private debug: boolean = false,
+    private registry: TaskRegistry = TaskRegistry.createDefault()
   ) {
     this.osType = OSDetector.getOS();
+    this.runId = this.createRunId();
+    this.quarantine = new QuarantineManager(this.runId, config.quarantineRetentionDays);
+    this.journal = new OperationJournal(this.runId);
+    this.exclusions = new ExclusionMatcher(config.exclusions);
+    this.scanIndex = config.scanIndex ? new ScanIndex() : undefined;
+    this.walker = new FileWalker(config.scanConcurrency, this.scanIndex);
   }
 
   async runAllTasks(): Promise<void> {
@@ -39,242 +179,512 @@ export class CleanupManager {
     
     if (this.dryRun) {
       this.logger.warn(chalk.yellow('⚠️  DRY RUN MODE - No files will actually be deleted'));
+    } else if (this.config.backupBeforeDelete) {
+      this.logger.info(chalk.gray(`Deleted files will be quarantined as run ${this.runId}`));
     }
 
-    await this.cleanTempFiles();
-    await this.cleanCacheFiles();
-    await this.cleanBrowserCaches();
-    await this.emptyTrash();
-    await this.organizeDownloads();
-    await this.findLargeFiles();
+    for (const cleaner of this.registry.getDefaultEnabled()) {
+      await this.runTask(cleaner.meta.id);
+    }
 
     this.printSummary();
   }
 
-  async cleanTempFiles(): Promise<CleanupResult> {
-    const spinner = ora('Cleaning temporary files...').start();
+  async runTask(taskId: string): Promise<CleanupResult> {
+    const cleanerClass = this.registry.get(taskId);
+    
+    if (!cleanerClass) {
+      throw new Error(`Unknown task: ${taskId}`);
+    }
+    
+    const meta = cleanerClass.meta;
+    
+    if (!TaskRegistry.isSupported(meta)) {
+      this.logger.warn(`${meta.title} is not supported on ${this.osType}, skipping`);
+      return { task: meta.id, filesDeleted: 0, spaceSaved: 0, errors: [] };
+    }
+    
+    const spinner = ora(`${meta.description}...`).start();
+    const started = Date.now();
+    const walkedBefore = this.walker.getStats();
     
     try {
-      const cleaner = new TempCleaner(this.config, this.dryRun, this.debug);
+      const cleaner = new cleanerClass(this.config, this.dryRun, this.debug, this.getCleanerContext());
       const result = await cleaner.clean();
       
-      this.results.push(result);
+      this.attachFiles(result, cleaner);
+      result.stats = this.getTaskStats(started, walkedBefore);
+      await this.recordResult(result);
+      await this.saveScanIndex();
       
       if (result.errors.length > 0) {
-        spinner.warn(chalk.yellow(`Temp cleanup completed with ${result.errors.length} warnings`));
+        spinner.warn(chalk.yellow(`${meta.title} completed with ${result.errors.length} warnings`));
         result.errors.forEach((error: string) => this.logger.warn(error));
       } else {
-        spinner.succeed(chalk.green(`Temp files cleaned: ${result.filesDeleted} files, ${this.formatBytes(result.spaceSaved)} freed`));
+        spinner.succeed(chalk.green(`${meta.title}: ${this.describeResult(result)}`));
+      }
+      
+      if (result.devProjects) {
+        this.printDevProjects(result.devProjects);
+      }
+      
+      if (result.trashVolumes) {
+        this.printTrashVolumes(result.trashVolumes);
+      }
+      
+      if (result.browserProfiles) {
+        this.printBrowserProfiles(result.browserProfiles);
+      }
+      
+      if (result.browserData) {
+        this.printBrowserData(result.browserData);
+      }
+      
+      if (result.duplicates && result.filesDeleted === 0 && !result.filesLinked) {
+        this.printDuplicates(result.duplicates);
       }
       
       return result;
     } catch (error) {
-      spinner.fail(chalk.red('Failed to clean temp files'));
+      spinner.fail(chalk.red(`Failed: ${meta.description.toLowerCase()}`));
       const result: CleanupResult = {
-        task: 'temp',
+        task: meta.id,
         filesDeleted: 0,
         spaceSaved: 0,
+        stats: this.getTaskStats(started, walkedBefore),
         errors: [error instanceof Error ? error.message : 'Unknown error']
       };
-      this.results.push(result);
+      await this.recordResult(result);
       return result;
     }
   }
 
-  async cleanCacheFiles(): Promise<CleanupResult> {
-    const spinner = ora('Cleaning cache files...').start();
+  // Switches the manager into scan mode: cleaners record candidates instead of deleting them
+  startPlan(): CleanupPlan {
+    this.plan = new CleanupPlan();
+    this.dryRun = true;
+    return this.plan;
+  }
+
+  async applyPlan(plan: CleanupPlanFile): Promise<CleanupResult> {
+    const spinner = ora(`Applying cleanup plan (${plan.entries.length} entries)...`).start();
     
     try {
-      const cleaner = new CacheCleaner(this.config, this.dryRun, this.debug);
-      const result = await cleaner.clean();
+      const applier = new PlanApplier(plan, this.config, this.dryRun, this.debug, this.getCleanerContext());
+      const result = await applier.apply();
       
-      this.results.push(result);
+      this.attachFiles(result, applier);
+      await this.recordResult(result);
       
       if (result.errors.length > 0) {
-        spinner.warn(chalk.yellow(`Cache cleanup completed with ${result.errors.length} warnings`));
+        spinner.warn(chalk.yellow(`Plan applied with ${result.errors.length} skipped or failed entries`));
         result.errors.forEach((error: string) => this.logger.warn(error));
       } else {
-        spinner.succeed(chalk.green(`Cache files cleaned: ${result.filesDeleted} files, ${this.formatBytes(result.spaceSaved)} freed`));
+        spinner.succeed(chalk.green(`Plan applied: ${result.filesDeleted} files, ${formatBytes(result.spaceSaved)} freed`));
       }
       
       return result;
     } catch (error) {
-      spinner.fail(chalk.red('Failed to clean cache files'));
+      spinner.fail(chalk.red('Failed to apply cleanup plan'));
       const result: CleanupResult = {
-        task: 'cache',
+        task: 'plan',
         filesDeleted: 0,
         spaceSaved: 0,
         errors: [error instanceof Error ? error.message : 'Unknown error']
       };
-      this.results.push(result);
+      await this.recordResult(result);
       return result;
     }
   }
 
-  async cleanBrowserCaches(): Promise<CleanupResult> {
-    const spinner = ora('Cleaning browser caches...').start();
+  // Lets the interactive mode show stale projects before deciding which artifacts to remove
+  async findDevArtifacts(): Promise<DevProject[]> {
+    const spinner = ora('Looking for stale projects...').start();
     
     try {
-      const cleaner = new BrowserCleaner(this.config, this.dryRun, this.debug);
-      const result = await cleaner.clean();
+      const cleaner = new DevArtifactCleaner(this.config, this.dryRun, this.debug, this.getCleanerContext());
+      const result = await cleaner.find();
+      const projects = result.devProjects || [];
       
-      this.results.push(result);
+      spinner.succeed(chalk.green(`Found ${projects.length} stale project(s)`));
+      result.errors.forEach((error: string) => this.logger.warn(error));
       
-      if (result.errors.length > 0) {
-        spinner.warn(chalk.yellow(`Browser cleanup completed with ${result.errors.length} warnings`));
-        result.errors.forEach((error: string) => this.logger.warn(error));
-      } else {
-        spinner.succeed(chalk.green(`Browser caches cleaned: ${result.filesDeleted} files, ${this.formatBytes(result.spaceSaved)} freed`));
-      }
-      
-      return result;
+      return projects;
     } catch (error) {
-      spinner.fail(chalk.red('Failed to clean browser caches'));
-      const result: CleanupResult = {
-        task: 'browsers',
-        filesDeleted: 0,
-        spaceSaved: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error']
-      };
-      this.results.push(result);
-      return result;
+      spinner.fail(chalk.red('Failed to look for stale projects'));
+      this.logger.warn(error instanceof Error ? error.message : 'Unknown error');
+      return [];
     }
   }
 
-  async emptyTrash(): Promise<CleanupResult> {
-    const spinner = ora('Emptying trash/recycle bin...').start();
+  async removeDevArtifacts(projects: DevProject[]): Promise<CleanupResult> {
+    const spinner = ora('Removing developer artifacts...').start();
     
     try {
-      const cleaner = new TrashCleaner(this.config, this.dryRun, this.debug);
-      const result = await cleaner.clean();
+      const cleaner = new DevArtifactCleaner(this.config, this.dryRun, this.debug, this.getCleanerContext());
+      const result = await cleaner.remove(projects);
       
-      this.results.push(result);
+      this.attachFiles(result, cleaner);
+      await this.recordResult(result);
       
       if (result.errors.length > 0) {
-        spinner.warn(chalk.yellow(`Trash cleanup completed with ${result.errors.length} warnings`));
+        spinner.warn(chalk.yellow(`Developer artifacts removed with ${result.errors.length} warnings`));
         result.errors.forEach((error: string) => this.logger.warn(error));
       } else {
-        spinner.succeed(chalk.green(`Trash emptied: ${result.filesDeleted} files, ${this.formatBytes(result.spaceSaved)} freed`));
+        spinner.succeed(chalk.green(`Developer artifacts: ${this.describeResult(result)}`));
       }
       
       return result;
     } catch (error) {
-      spinner.fail(chalk.red('Failed to empty trash'));
+      spinner.fail(chalk.red('Failed to remove developer artifacts'));
       const result: CleanupResult = {
-        task: 'trash',
+        task: 'devArtifacts',
         filesDeleted: 0,
         spaceSaved: 0,
         errors: [error instanceof Error ? error.message : 'Unknown error']
       };
-      this.results.push(result);
+      await this.recordResult(result);
       return result;
     }
   }
 
-  async organizeDownloads(): Promise<CleanupResult> {
-    const spinner = ora('Organizing downloads folder...').start();
+  // Lets the interactive mode show duplicate sets before choosing what to keep
+  async findDuplicates(): Promise<DuplicateSet[]> {
+    const spinner = ora('Looking for duplicate files...').start();
     
     try {
-      const organizer = new DownloadsOrganizer(this.config, this.dryRun, this.debug);
-      const result = await organizer.organize();
+      const finder = new DuplicateFinder(this.config, this.dryRun, this.debug, this.getCleanerContext());
+      const result = await finder.find();
+      const sets = result.duplicates || [];
+      await this.saveScanIndex();
+      const wasted = sets.reduce((total, set) => total + set.wastedBytes, 0);
       
-      this.results.push(result);
+      spinner.succeed(chalk.green(`Found ${sets.length} duplicate set(s), ${formatBytes(wasted)} wasted`));
+      result.errors.forEach((error: string) => this.logger.warn(error));
       
-      if (result.errors.length > 0) {
-        spinner.warn(chalk.yellow(`Downloads organization completed with ${result.errors.length} warnings`));
-        result.errors.forEach((error: string) => this.logger.warn(error));
-      } else {
-        spinner.succeed(chalk.green(`Downloads organized: ${result.filesOrganized || 0} files moved`));
-      }
-      
-      return result;
+      return sets;
     } catch (error) {
-      spinner.fail(chalk.red('Failed to organize downloads'));
-      const result: CleanupResult = {
-        task: 'downloads',
-        filesDeleted: 0,
-        spaceSaved: 0,
-        filesOrganized: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error']
-      };
-      this.results.push(result);
-      return result;
+      spinner.fail(chalk.red('Failed to look for duplicate files'));
+      this.logger.warn(error instanceof Error ? error.message : 'Unknown error');
+      return [];
     }
   }
 
-  async findLargeFiles(): Promise<CleanupResult> {
-    const spinner = ora('Finding large files...').start();
+  async dedupeDuplicates(sets: DuplicateSet[], action: DuplicateAction): Promise<CleanupResult> {
+    const spinner = ora(action === 'hardlink' ? 'Replacing duplicates with hardlinks...' : 'Removing duplicate files...').start();
     
     try {
-      const finder = new LargeFileFinder(this.config, this.dryRun, this.debug);
-      const result = await finder.find();
+      const finder = new DuplicateFinder(this.config, this.dryRun, this.debug, this.getCleanerContext());
+      const result = await finder.dedupe(sets, action);
       
-      this.results.push(result);
+      this.attachFiles(result, finder);
+      await this.recordResult(result);
       
       if (result.errors.length > 0) {
-        spinner.warn(chalk.yellow(`Large file search completed with ${result.errors.length} warnings`));
+        spinner.warn(chalk.yellow(`Duplicates handled with ${result.errors.length} warnings`));
         result.errors.forEach((error: string) => this.logger.warn(error));
       } else {
-        const largeFileCount = result.largeFiles?.length || 0;
-        spinner.succeed(chalk.green(`Found ${largeFileCount} large files (>${this.formatBytes(this.config.largeFileThreshold)})`));
+        spinner.succeed(chalk.green(`Duplicate files: ${this.describeResult(result)}`));
       }
       
       return result;
     } catch (error) {
-      spinner.fail(chalk.red('Failed to find large files'));
+      spinner.fail(chalk.red('Failed to handle duplicate files'));
       const result: CleanupResult = {
-        task: 'largeFiles',
+        task: 'duplicates',
         filesDeleted: 0,
         spaceSaved: 0,
-        largeFiles: [],
         errors: [error instanceof Error ? error.message : 'Unknown error']
       };
-      this.results.push(result);
+      await this.recordResult(result);
       return result;
     }
   }
 
-  async generateReport(reportPath: string): Promise<void> {
+  async purgeExpiredQuarantine(): Promise<void> {
+    try {
+      const purged = await this.quarantine.purgeExpired();
+      
+      if (purged.length > 0) {
+        const freed = purged.reduce((total, run) => total + run.totalSize, 0);
+        this.logger.info(chalk.gray(`Purged ${purged.length} expired quarantine run(s), ${formatBytes(freed)} freed`));
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to purge expired quarantine runs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Drops the persistent scan index, for when it no longer matches the disk
+  async rebuildScanIndex(): Promise<void> {
+    if (!this.scanIndex) return;
+    
+    await this.scanIndex.clear();
+  }
+
+  getScanIndex(): ScanIndex | undefined {
+    return this.scanIndex;
+  }
+
+  // One line per task through the logger, for unattended runs where spinners and the summary reach no one
+  logResults(): void {
+    this.results.forEach(result => {
+      const title = this.registry.get(result.task)?.meta.title || result.task;
+      const warnings = result.errors.length > 0 ? ` (${result.errors.length} warnings)` : '';
+      this.logger.info(`${title}: ${this.describeResult(result)}${warnings}`);
+    });
+    
+    this.reclaimed.forEach(filesystem => {
+      this.logger.info(`Reclaimed on ${filesystem.mountPoint}: ${this.describeReclaimed(filesystem)}`);
+    });
+  }
+
+  // The format follows the file extension unless one is given
+  async generateReport(reportPath: string, format?: ReportFormat): Promise<void> {
     const generator = new ReportGenerator();
-    await generator.generate(this.results, reportPath);
+    await generator.generate(this.results, reportPath, this.reclaimed, format);
     this.logger.info(chalk.green(`📊 Report saved to: ${reportPath}`));
   }
 
-  private printSummary(): void {
+  private getCleanerContext(): CleanerContext {
+    return {
+      quarantine: this.quarantine,
+      journal: this.journal,
+      plan: this.plan,
+      openFiles: this.openFiles,
+      guard: this.guard,
+      exclusions: this.exclusions,
+      walker: this.walker,
+      space: this.space
+    };
+  }
+
+  private async saveScanIndex(): Promise<void> {
+    try {
+      await this.scanIndex?.save();
+    } catch (error) {
+      // A missing index only makes the next scan slower
+      this.logger.warn(`Could not save the scan index: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // What a task cost, measured against the walker counters from before it started
+  private getTaskStats(started: number, walkedBefore: WalkerStats): TaskStats {
+    const walked = this.walker.getStats();
+    
+    return {
+      elapsedMs: Date.now() - started,
+      entriesVisited: walked.entriesVisited - walkedBefore.entriesVisited,
+      statCalls: walked.statCalls - walkedBefore.statCalls
+    };
+  }
+
+  private attachFiles(result: CleanupResult, cleaner: BaseCleaner): void {
+    const files = cleaner.getAffectedFiles();
+    
+    if (files.length > 0) {
+      result.files = files;
+    }
+  }
+
+  private async recordResult(result: CleanupResult): Promise<void> {
+    this.results.push(result);
+    this.plan?.assignTask(result.task);
+    
+    // Free space is measured after every task, so a later failure does not lose what was reclaimed so far
+    await this.space.measure();
+    this.reclaimed = await this.space.getResults();
+  }
+
+  printSummary(): void {
     console.log('\n' + chalk.blue('📊 CLEANUP SUMMARY') + '\n');
     
     let totalFiles = 0;
     let totalSpace = 0;
     let totalOrganized = 0;
+    let totalSkipped = 0;
     let totalErrors = 0;
 
     this.results.forEach(result => {
       totalFiles += result.filesDeleted;
       totalSpace += result.spaceSaved;
       totalOrganized += result.filesOrganized || 0;
+      totalSkipped += result.skipped?.length || 0;
       totalErrors += result.errors.length;
     });
 
     console.log(chalk.green(`✅ Total files cleaned: ${totalFiles}`));
-    console.log(chalk.green(`💾 Total space freed: ${this.formatBytes(totalSpace)}`));
+    console.log(chalk.green(`💾 Total space freed: ${formatBytes(totalSpace)}`));
     console.log(chalk.green(`📁 Total files organized: ${totalOrganized}`));
     
+    if (totalSkipped > 0) {
+      console.log(chalk.gray(`⏭️  Total files skipped: ${totalSkipped}`));
+    }
+    
     if (totalErrors > 0) {
       console.log(chalk.yellow(`⚠️  Total warnings: ${totalErrors}`));
     }
 
+    this.printReclaimedSpace();
+    this.printTaskStats();
+
     console.log('\n' + chalk.blue('🎉 Cleanup completed!'));
   }
 
-  private formatBytes(bytes: number): string {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  printReclaimedSpace(): void {
+    if (this.reclaimed.length === 0) {
+      return;
+    }
+    
+    console.log('\n' + chalk.blue('💽 Space reclaimed per filesystem'));
+    
+    this.reclaimed.forEach(filesystem => {
+      console.log(chalk.gray(`  ${filesystem.mountPoint.padEnd(16)} ${this.describeReclaimed(filesystem)}`));
+    });
+  }
+
+  private describeReclaimed(filesystem: ReclaimedSpace): string {
+    const estimated = `estimated ${formatBytes(filesystem.estimated)}`;
+    
+    if (filesystem.actual === undefined) {
+      return `${estimated}, actual not measured${this.dryRun ? ' (dry run)' : ''}`;
+    }
+    
+    // Other programs keep writing during a run, so free space can even shrink
+    return `${estimated}, actual ${formatBytes(filesystem.actual)} (${formatBytes(filesystem.freeBefore!)} → ${formatBytes(filesystem.freeAfter!)} free)`;
+  }
+
+  private printTaskStats(): void {
+    const measured = this.results.filter(result => result.stats);
+    
+    if (measured.length === 0) {
+      return;
+    }
+    
+    console.log('\n' + chalk.blue('⏱️  Task performance'));
+    
+    measured.forEach(result => {
+      const stats = result.stats!;
+      console.log(chalk.gray(`  ${result.task.padEnd(16)} ${this.formatDuration(stats.elapsedMs).padStart(7)}  ${stats.entriesVisited.toLocaleString()} entries visited, ${stats.statCalls.toLocaleString()} stat calls`));
+    });
+    
+    // Entries handed out without a stat call of their own were shared with an earlier walk
+    const walked = this.walker.getStats();
+    const reused = Math.max(walked.entriesVisited - walked.statCalls, 0);
+    console.log(chalk.gray(`  Filesystem: ${walked.entriesVisited.toLocaleString()} entries visited, ${walked.statCalls.toLocaleString()} stat calls, ${walked.directoriesRead.toLocaleString()} directories read (${reused.toLocaleString()} entries reused from the shared walk)`));
+    
+    if (walked.directoriesFromIndex > 0) {
+      console.log(chalk.gray(`  Scan index: ${walked.directoriesFromIndex.toLocaleString()} unchanged directories not read again`));
+    }
+  }
+
+  private formatDuration(ms: number): string {
+    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+  }
+
+  private printDevProjects(projects: DevProject[]): void {
+    projects.forEach(project => {
+      const artifacts = project.artifacts.map(artifact => path.basename(artifact.path)).join(', ');
+      this.logger.info(chalk.gray(`  ${project.path} (${project.type}, last active ${project.lastActivity.toLocaleDateString()}): ${formatBytes(project.size)} in ${artifacts}`));
+    });
+  }
+
+  private printTrashVolumes(volumes: TrashVolumeResult[]): void {
+    volumes.forEach(volume => {
+      this.logger.info(chalk.gray(`  ${volume.mountPoint} (${volume.path}): ${volume.items} item(s), ${formatBytes(volume.size)}; ${volume.itemsDeleted} removed, ${formatBytes(volume.spaceSaved)} freed`));
+    });
+  }
+
+  private printBrowserProfiles(profiles: BrowserProfileResult[]): void {
+    profiles.forEach(profile => {
+      const outcome = !profile.selected ? 'not selected'
+        : profile.skippedReason ? 'skipped, in use'
+        : `${profile.filesDeleted} files, ${formatBytes(profile.spaceSaved)}`;
+      this.logger.info(chalk.gray(`  ${profile.browser}:${profile.profile} "${profile.name}": ${outcome}`));
+    });
+  }
+
+  private printBrowserData(profiles: BrowserDataResult[]): void {
+    profiles.forEach(profile => {
+      const outcome = profile.skippedReason
+        ? 'skipped, in use'
+        : `${profile.historyDeleted} history entries, ${profile.cookiesDeleted} cookies, ${profile.sitesCleared} sites`;
+      this.logger.info(chalk.gray(`  ${profile.browser}:${profile.profile} "${profile.name}": ${outcome}`));
+    });
+  }
+
+  private printDuplicates(sets: DuplicateSet[]): void {
+    const shown = sets.slice(0, 20);
+    
+    shown.forEach(set => {
+      this.logger.info(chalk.gray(`  ${set.files.length} copies of ${formatBytes(set.size)}, ${formatBytes(set.wastedBytes)} wasted:`));
+      set.files.forEach(file => this.logger.info(chalk.gray(`    ${file.path}`)));
+    });
+    
+    if (sets.length > shown.length) {
+      this.logger.info(chalk.gray(`  ...and ${sets.length - shown.length} more set(s), see the report for all of them`));
+    }
+  }
+
+  private createRunId(): string {
+    // Sortable timestamp plus a short random suffix, e.g. 20250101-093000-a1b2
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    const suffix = Math.random().toString(16).slice(2, 6);
+    return `${timestamp}-${suffix}`;
+  }
+
+  private describeResult(result: CleanupResult): string {
+    if (result.largeFiles) {
+      return `found ${result.largeFiles.length} (>${formatBytes(this.config.largeFileThreshold)})`;
+    }
+    
+    if (result.duplicates) {
+      const wasted = result.duplicates.reduce((total, set) => total + set.wastedBytes, 0);
+      
+      if (result.filesLinked) {
+        return `${result.filesLinked} files hardlinked, ${formatBytes(result.spaceSaved)} freed`;
+      }
+      
+      if (result.filesDeleted > 0) {
+        return `${result.filesDeleted} files, ${formatBytes(result.spaceSaved)} freed`;
+      }
+      
+      return `${result.duplicates.length} sets, ${formatBytes(wasted)} wasted`;
+    }
+    
+    if (result.rules) {
+      const moved = result.filesOrganized ? `, ${result.filesOrganized} moved` : '';
+      return `${result.rules.length} rules, ${result.filesDeleted} files, ${formatBytes(result.spaceSaved)} freed${moved}`;
+    }
+    
+    if (result.filesOrganized !== undefined) {
+      return `${result.filesOrganized} files organized`;
+    }
+    
+    if (result.browserData) {
+      const history = result.browserData.reduce((total, profile) => total + profile.historyDeleted, 0);
+      const cookies = result.browserData.reduce((total, profile) => total + profile.cookiesDeleted, 0);
+      const sites = result.browserData.reduce((total, profile) => total + profile.sitesCleared, 0);
+      const skipped = result.skipped?.length || 0;
+      return `${history} history entries, ${cookies} cookies, ${sites} sites cleared, ${formatBytes(result.spaceSaved)} freed${skipped > 0 ? `, ${skipped} skipped` : ''}`;
+    }
+    
+    if (result.thumbnailsKept !== undefined) {
+      return `${result.filesDeleted} outdated removed, ${formatBytes(result.spaceSaved)} freed, ${result.thumbnailsKept} kept`;
+    }
+    
+    const skipped = result.skipped?.length || 0;
+    return `${result.filesDeleted} files, ${formatBytes(result.spaceSaved)} freed${skipped > 0 ? `, ${skipped} skipped` : ''}`;
   }
 
   getResults(): CleanupResult[] {
     return this.results;
   }
+
+  getRunId(): string {
+    return this.runId;
+  }
+
+  getRegistry(): TaskRegistry {
+    return this.registry;
+  }
 }
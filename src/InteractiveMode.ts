@@ -1,7 +1,19 @@
 import inquirer from 'inquirer';
 import chalk from 'chalk';
+import * as path from 'path';
 import { CleanupManager } from './CleanupManager';
 import { Logger } from './utils/Logger';
+import { OSDetector } from './utils/OSDetector';
+import { DiskUsageNode } from './utils/DiskUsageScanner';
+import { DiskUsageCommand } from './commands/DiskUsageCommand';
+import { formatBytes } from './utils/formatBytes';
+
+// A row of the disk usage drill-down: a child directory by index, or one of the navigation entries
+interface DrillChoice {
+  name: string;
+  value: number | 'up' | 'files' | 'done';
+  disabled?: string;
+}
 
 export class InteractiveMode {
   constructor(
@@ -20,6 +32,7 @@ export class InteractiveMode {
         choices: [
           { name: '🚀 Run complete cleanup (all tasks)', value: 'complete' },
           { name: '🎯 Select specific cleanup tasks', value: 'selective' },
+          { name: '📊 Analyze disk usage', value: 'diskUsage' },
           { name: '⚙️  Configure settings', value: 'configure' },
           { name: '❌ Exit', value: 'exit' }
         ]
@@ -33,6 +46,9 @@ export class InteractiveMode {
       case 'selective':
         await this.runSelectiveCleanup();
         break;
+      case 'diskUsage':
+        await this.analyzeDiskUsage();
+        break;
       case 'configure':
         await this.configureSettings();
         break;
@@ -61,7 +77,7 @@ export class InteractiveMode {
       {
         type: 'confirm',
         name: 'proceed',
-        message: chalk.yellow('⚠️  This will run all cleanup tasks. Continue?'),
+        message: chalk.yellow('⚠️  This will run all default cleanup tasks. Continue?'),
         default: true
       }
     ]);
@@ -78,14 +94,11 @@ export class InteractiveMode {
         type: 'checkbox',
         name: 'tasks',
         message: 'Select cleanup tasks to run:',
-        choices: [
-          { name: '🗂️  Clean temporary files', value: 'temp', checked: true },
-          { name: '💾 Clean cache files', value: 'cache', checked: true },
-          { name: '🌐 Clean browser caches', value: 'browsers', checked: true },
-          { name: '🗑️  Empty trash/recycle bin', value: 'trash', checked: false },
-          { name: '📁 Organize downloads folder', value: 'downloads', checked: false },
-          { name: '📊 Find large files', value: 'largeFiles', checked: false }
-        ]
+        choices: this.cleanupManager.getRegistry().getSupported().map(cleaner => ({
+          name: `${cleaner.meta.icon || '🧩'} ${cleaner.meta.description}`,
+          value: cleaner.meta.id,
+          checked: cleaner.meta.defaultEnabled
+        }))
       }
     ]);
 
@@ -105,25 +118,14 @@ export class InteractiveMode {
 
     if (confirmation.proceed) {
       for (const task of taskChoices.tasks) {
-        switch (task) {
-          case 'temp':
-            await this.cleanupManager.cleanTempFiles();
-            break;
-          case 'cache':
-            await this.cleanupManager.cleanCacheFiles();
-            break;
-          case 'browsers':
-            await this.cleanupManager.cleanBrowserCaches();
-            break;
-          case 'trash':
-            await this.cleanupManager.emptyTrash();
-            break;
-          case 'downloads':
-            await this.cleanupManager.organizeDownloads();
-            break;
-          case 'largeFiles':
-            await this.handleLargeFiles();
-            break;
+        if (task === 'largeFiles') {
+          await this.handleLargeFiles();
+        } else if (task === 'devArtifacts') {
+          await this.handleDevArtifacts();
+        } else if (task === 'duplicates') {
+          await this.handleDuplicates();
+        } else {
+          await this.cleanupManager.runTask(task);
         }
       }
       await this.askForReport();
@@ -131,13 +133,13 @@ export class InteractiveMode {
   }
 
   private async handleLargeFiles(): Promise<void> {
-    const result = await this.cleanupManager.findLargeFiles();
+    const result = await this.cleanupManager.runTask('largeFiles');
     
     if (result.largeFiles && result.largeFiles.length > 0) {
       this.logger.info(chalk.blue('\n📊 Large Files Found:'));
       
       result.largeFiles.forEach((file, index) => {
-        console.log(`${index + 1}. ${file.path} (${this.formatBytes(file.size)})`);
+        console.log(`${index + 1}. ${file.path} (${formatBytes(file.size)})`);
       });
 
       const deleteChoice = await inquirer.prompt([
@@ -146,7 +148,7 @@ export class InteractiveMode {
           name: 'filesToDelete',
           message: 'Select files to delete (optional):',
           choices: result.largeFiles.map((file, index) => ({
-            name: `${file.path} (${this.formatBytes(file.size)})`,
+            name: `${file.path} (${formatBytes(file.size)})`,
             value: index
           }))
         }
@@ -172,6 +174,170 @@ export class InteractiveMode {
     }
   }
 
+  private async handleDevArtifacts(): Promise<void> {
+    const projects = await this.cleanupManager.findDevArtifacts();
+    
+    if (projects.length === 0) {
+      this.logger.info(chalk.green('✅ No stale projects with build artifacts found.'));
+      return;
+    }
+
+    const projectChoice = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'projects',
+        message: 'Select projects whose build artifacts should be removed:',
+        choices: projects.map((project, index) => ({
+          name: `${project.path} (${project.type}, last active ${project.lastActivity.toLocaleDateString()}) - ${formatBytes(project.size)}`,
+          value: index,
+          checked: true
+        }))
+      }
+    ]);
+
+    if (projectChoice.projects.length === 0) {
+      return;
+    }
+
+    const selected: typeof projects = projectChoice.projects.map((index: number) => projects[index]);
+    const totalSize = selected.reduce((total, project) => total + project.size, 0);
+
+    const confirmation = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'proceed',
+        message: chalk.yellow(`⚠️  Remove build artifacts of ${selected.length} project(s), ${formatBytes(totalSize)}?`),
+        default: false
+      }
+    ]);
+
+    if (confirmation.proceed) {
+      await this.cleanupManager.removeDevArtifacts(selected);
+    }
+  }
+
+  private async handleDuplicates(): Promise<void> {
+    const sets = await this.cleanupManager.findDuplicates();
+    
+    if (sets.length === 0) {
+      this.logger.info(chalk.green('✅ No duplicate files found.'));
+      return;
+    }
+
+    const setChoice = await inquirer.prompt([
+      {
+        type: 'checkbox',
+        name: 'sets',
+        message: 'Select duplicate sets to deduplicate:',
+        choices: sets.map((set, index) => ({
+          name: `${set.files.length} copies, ${formatBytes(set.wastedBytes)} wasted - ${set.files.map(file => file.path).join(', ')}`,
+          value: index,
+          checked: true
+        })),
+        pageSize: 15
+      }
+    ]);
+
+    if (setChoice.sets.length === 0) {
+      return;
+    }
+
+    const actionChoice = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'action',
+        message: 'Which copy should be kept?',
+        choices: [
+          { name: '🆕 Keep the newest copy, delete the others', value: 'keep-newest' },
+          { name: '📜 Keep the oldest copy, delete the others', value: 'keep-oldest' },
+          { name: '📂 Keep the copy in the highest priority folder (duplicates.pathPriority)', value: 'keep-by-path-priority' },
+          { name: '🔗 Keep every path, replace copies with hardlinks to the oldest one', value: 'hardlink' }
+        ]
+      }
+    ]);
+
+    const selected: typeof sets = setChoice.sets.map((index: number) => sets[index]);
+    const wasted = selected.reduce((total, set) => total + set.wastedBytes, 0);
+
+    const confirmation = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'proceed',
+        message: chalk.yellow(`⚠️  Deduplicate ${selected.length} set(s) to free up to ${formatBytes(wasted)}?`),
+        default: false
+      }
+    ]);
+
+    if (confirmation.proceed) {
+      await this.cleanupManager.dedupeDuplicates(selected, actionChoice.action);
+    }
+  }
+
+  private async analyzeDiskUsage(): Promise<void> {
+    const rootChoice = await inquirer.prompt([
+      {
+        type: 'input',
+        name: 'root',
+        message: 'Folder to analyze:',
+        default: OSDetector.getHomeDirectory()
+      }
+    ]);
+
+    await this.exploreDiskUsage(rootChoice.root);
+  }
+
+  // Lets the user walk down the size tree one directory at a time, heaviest first
+  async exploreDiskUsage(rootPath: string): Promise<void> {
+    const command = new DiskUsageCommand(this.logger, false, this.cleanupManager.getScanIndex());
+    const scan = await command.scan(rootPath);
+    const trail: DiskUsageNode[] = [];
+    let current = scan.root;
+
+    if (scan.errors.length > 0) {
+      this.logger.warn(`⚠️  ${scan.errors.length} item(s) could not be read and are not counted`);
+    }
+
+    while (true) {
+      const children = [...current.children].sort((a, b) => b.size - a.size);
+      const choices: Array<DrillChoice | InstanceType<typeof inquirer.Separator>> = [];
+
+      if (trail.length > 0) {
+        choices.push({ name: '⬆️  ..', value: 'up' });
+      }
+
+      children.forEach((child, index) => {
+        choices.push({ name: command.formatRow(child.size, current.size, child.files, `${child.name}${path.sep}`), value: index });
+      });
+
+      if (current.ownFiles > 0) {
+        choices.push({ name: command.formatRow(current.ownSize, current.size, current.ownFiles, '[files]'), value: 'files', disabled: ' ' });
+      }
+
+      choices.push(new inquirer.Separator(), { name: '✅ Done', value: 'done' });
+
+      const drillChoice = await inquirer.prompt([
+        {
+          type: 'list',
+          name: 'target',
+          message: `${current.path} (${formatBytes(current.size)}, ${current.files.toLocaleString()} files)`,
+          choices,
+          pageSize: 20
+        }
+      ]);
+
+      if (drillChoice.target === 'done') {
+        return;
+      }
+
+      if (drillChoice.target === 'up') {
+        current = trail.pop()!;
+      } else {
+        trail.push(current);
+        current = children[drillChoice.target];
+      }
+    }
+  }
+
   private async configureSettings(): Promise<void> {
     this.logger.info(chalk.blue('⚙️  Configuration options will be implemented in a future version.'));
     this.logger.info(chalk.gray('For now, you can manually edit the config file at ~/.cleanmypc/config.json'));
@@ -195,7 +361,10 @@ export class InteractiveMode {
           message: 'Select report format:',
           choices: [
             { name: 'Text file (.txt)', value: 'txt' },
-            { name: 'JSON file (.json)', value: 'json' }
+            { name: 'JSON file (.json)', value: 'json' },
+            { name: 'HTML page (.html)', value: 'html' },
+            { name: 'Markdown (.md)', value: 'md' },
+            { name: 'CSV, one row per file (.csv)', value: 'csv' }
           ]
         }
       ]);
@@ -204,12 +373,4 @@ export class InteractiveMode {
       await this.cleanupManager.generateReport(reportPath);
     }
   }
-
-  private formatBytes(bytes: number): string {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  }
 }
@@ -0,0 +1,156 @@
+import * as path from 'path';
+import { CleanerClass, TaskMetadata } from './modules/BaseCleaner';
+import { TempCleaner } from './modules/TempCleaner';
+import { CacheCleaner } from './modules/CacheCleaner';
+import { BrowserCleaner } from './modules/BrowserCleaner';
+import { BrowserDataCleaner } from './modules/BrowserDataCleaner';
+import { TrashCleaner } from './modules/TrashCleaner';
+import { DownloadsOrganizer } from './modules/DownloadsOrganizer';
+import { LargeFileFinder } from './modules/LargeFileFinder';
+import { RuleCleaner } from './modules/RuleCleaner';
+import { DevArtifactCleaner } from './modules/DevArtifactCleaner';
+import { DuplicateFinder } from './modules/DuplicateFinder';
+import { PackageCacheCleaner } from './modules/PackageCacheCleaner';
+import { LogCleaner } from './modules/LogCleaner';
+import { ThumbnailCleaner } from './modules/ThumbnailCleaner';
+import { OSDetector } from './utils/OSDetector';
+
+export class TaskRegistry {
+  private tasks = new Map<string, CleanerClass>();
+
+  static createDefault(): TaskRegistry {
+    const registry = new TaskRegistry();
+
+    registry.register(TempCleaner);
+    registry.register(CacheCleaner);
+    registry.register(PackageCacheCleaner);
+    registry.register(BrowserCleaner);
+    registry.register(BrowserDataCleaner);
+    registry.register(TrashCleaner);
+    registry.register(LogCleaner);
+    registry.register(ThumbnailCleaner);
+    registry.register(DownloadsOrganizer);
+    registry.register(LargeFileFinder);
+    registry.register(DuplicateFinder);
+    registry.register(RuleCleaner);
+    registry.register(DevArtifactCleaner);
+
+    return registry;
+  }
+
+  register(cleaner: CleanerClass): void {
+    if (!TaskRegistry.isCleanerClass(cleaner)) {
+      throw new Error('Cleaner must be a BaseCleaner subclass with static meta { id, title, description }');
+    }
+
+    if (this.tasks.has(cleaner.meta.id)) {
+      throw new Error(`A task with id "${cleaner.meta.id}" is already registered`);
+    }
+
+    this.tasks.set(cleaner.meta.id, cleaner);
+  }
+
+  get(id: string): CleanerClass | undefined {
+    return this.tasks.get(id);
+  }
+
+  getAll(): CleanerClass[] {
+    return [...this.tasks.values()];
+  }
+
+  getSupported(): CleanerClass[] {
+    return this.getAll().filter(cleaner => TaskRegistry.isSupported(cleaner.meta));
+  }
+
+  // Tasks that run when none are named; opt-in tasks only run when asked for by flag or --tasks
+  getDefaultEnabled(): CleanerClass[] {
+    return this.getSupported().filter(cleaner => cleaner.meta.defaultEnabled);
+  }
+
+  // Task ids of supported tasks named by id (largeFiles) or flag name (large-files)
+  resolveTasks(names: string[]): string[] {
+    const supported = this.getSupported();
+
+    return names.map(name => {
+      const cleaner = supported.find(candidate => candidate.meta.id === name || TaskRegistry.getFlag(candidate.meta) === `--${name}`);
+
+      if (!cleaner) {
+        throw new Error(`Unknown task "${name}", available tasks: ${supported.map(candidate => TaskRegistry.getFlag(candidate.meta).slice(2)).join(', ')}`);
+      }
+
+      return cleaner.meta.id;
+    });
+  }
+
+  static isSupported(meta: TaskMetadata): boolean {
+    return !meta.platforms || meta.platforms.includes(OSDetector.getOS());
+  }
+
+  // largeFiles -> --large-files
+  static getFlag(meta: TaskMetadata): string {
+    return '--' + meta.id.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+  }
+
+  /**
+   * Loads third-party cleaners from npm packages or local .js files.
+   * A plugin module may export a cleaner class directly, as its default
+   * export, or as any number of named exports. Returns one message per
+   * plugin that could not be loaded.
+   */
+  loadPlugins(specifiers: string[], baseDir: string): string[] {
+    const errors: string[] = [];
+
+    for (const specifier of specifiers) {
+      try {
+        const exported = require(this.resolvePlugin(specifier, baseDir));
+        const cleaners = this.collectCleaners(exported);
+
+        if (cleaners.length === 0) {
+          throw new Error('module does not export any cleaner class');
+        }
+
+        cleaners.forEach(cleaner => this.register(cleaner));
+      } catch (error) {
+        // Module resolution errors append the whole require stack
+        const message = error instanceof Error ? error.message.split('\n')[0] : 'Unknown error';
+        errors.push(`Failed to load plugin ${specifier}: ${message}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private resolvePlugin(specifier: string, baseDir: string): string {
+    const isLocalFile = specifier.startsWith('.') || specifier.startsWith('~') || path.isAbsolute(specifier);
+
+    if (isLocalFile) {
+      const expanded = specifier.startsWith('~')
+        ? path.join(OSDetector.getHomeDirectory(), specifier.slice(1))
+        : specifier;
+      return path.resolve(baseDir, expanded);
+    }
+
+    return require.resolve(specifier, { paths: [baseDir, process.cwd()] });
+  }
+
+  private collectCleaners(exported: any): CleanerClass[] {
+    if (TaskRegistry.isCleanerClass(exported)) {
+      return [exported];
+    }
+
+    if (exported && typeof exported === 'object') {
+      return Object.values(exported).filter(TaskRegistry.isCleanerClass);
+    }
+
+    return [];
+  }
+
+  // Plugins may bundle their own copy of BaseCleaner, so check the shape instead of instanceof
+  private static isCleanerClass(candidate: any): candidate is CleanerClass {
+    return typeof candidate === 'function'
+      && typeof candidate.prototype?.clean === 'function'
+      && typeof candidate.meta?.id === 'string'
+      && typeof candidate.meta?.title === 'string'
+      && typeof candidate.meta?.description === 'string';
+  }
+}
@@ -1,95 +1,420 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
+import * as path from 'path';
 import { CleanupManager } from './CleanupManager';
-import { ConfigManager } from './utils/ConfigManager';
+import { ConfigManager, CleanupConfig } from './utils/ConfigManager';
 import { Logger } from './utils/Logger';
 import { InteractiveMode } from './InteractiveMode';
+import { QuarantineCommand } from './commands/QuarantineCommand';
+import { UndoCommand } from './commands/UndoCommand';
+import { DiskUsageCommand } from './commands/DiskUsageCommand';
+import { TrashCommand } from './commands/TrashCommand';
+import { ScheduleCommand } from './commands/ScheduleCommand';
+import { WatchCommand } from './commands/WatchCommand';
+import { ScheduleStore } from './utils/schedule/ScheduleStore';
+import { OSDetector } from './utils/OSDetector';
+import { CleanupPlan } from './utils/CleanupPlan';
+import { TaskRegistry } from './TaskRegistry';
+import { REPORT_FORMATS } from './utils/reports/ReportRenderer';
 
 const program = new Command();
+const registry = TaskRegistry.createDefault();
 
 async function main() {
+  // Plugins add task flags, so they have to be registered before the arguments are parsed
+  await loadPlugins();
+
   program
     .name('cleanmypc')
     .description('Professional cross-platform CLI tool for system cleanup')
     .version('1.0.0')
     .option('-d, --dry-run', 'Show what would be cleaned without actually doing it')
     .option('-s, --silent', 'Run without prompts (use for automation)')
-    .option('-r, --report <path>', 'Save cleanup report to file (txt or json)')
+    .option('-r, --report <path>', 'Save cleanup report to file (txt, json, html, md or csv, by extension)')
+    .addOption(new Option('--report-format <format>', 'Report format, instead of guessing it from the extension').choices(REPORT_FORMATS))
     .option('-c, --config <path>', 'Use custom config file')
     .option('--debug', 'Enable debug logging')
-    .option('--temp', 'Clean temporary files only')
-    .option('--cache', 'Clean cache files only')
-    .option('--browsers', 'Clean browser caches only')
-    .option('--trash', 'Empty trash/recycle bin only')
-    .option('--downloads', 'Organize downloads folder only')
-    .option('--large-files', 'Find and optionally delete large files only');
-
-  program.parse();
-  
-  const options = program.opts();
-  
+    .option('--rebuild-index', 'Forget the persistent scan index and read every directory again')
+    .option('--wait-for-close', 'Wait for running browsers to exit instead of skipping their profiles')
+    .option('--profile <name>', 'Apply a named set of settings from the profiles section of the config')
+    .option('--scheduled <job-id>', 'Run unattended as a scheduled job, logging to ~/.cleanmypc/runs (used by schedule add)');
+
+  registry.getAll().forEach(cleaner => {
+    program.option(TaskRegistry.getFlag(cleaner.meta), `${cleaner.meta.description} only`);
+  });
+
+  program.action(runCleanup);
+
+  const quarantine = program
+    .command('quarantine')
+    .description('Manage files quarantined by backupBeforeDelete');
+
+  quarantine
+    .command('list')
+    .description('List quarantined cleanup runs')
+    .action(async (_options, command: Command) => {
+      const { config, logger } = await loadContext(command.optsWithGlobals());
+      await new QuarantineCommand(config, logger).list();
+    });
+
+  quarantine
+    .command('restore <run-id>')
+    .description('Move every file of a quarantined run back to its original path')
+    .action(async (runId: string, _options, command: Command) => {
+      const { config, logger } = await loadContext(command.optsWithGlobals());
+      await new QuarantineCommand(config, logger).restore(runId);
+    });
+
+  quarantine
+    .command('purge [run-id]')
+    .description('Permanently delete a quarantined run, or all runs past their retention period')
+    .option('--all', 'Purge every quarantined run')
+    .action(async (runId: string | undefined, options, command: Command) => {
+      const { config, logger } = await loadContext(command.optsWithGlobals());
+      await new QuarantineCommand(config, logger).purge(runId, options);
+    });
+
+  const trash = program
+    .command('trash')
+    .description('Inspect and restore items in the trash (Linux)');
+
+  trash
+    .command('list')
+    .description('List trashed items with their original path, deletion date and size')
+    .action(async (_options, command: Command) => {
+      const { config, logger } = await loadContext(command.optsWithGlobals());
+      await new TrashCommand(config, logger).list();
+    });
+
+  trash
+    .command('restore <item>')
+    .description('Move a trashed item back to its original path (item name or original path)')
+    .action(async (item: string, _options, command: Command) => {
+      const { config, logger } = await loadContext(command.optsWithGlobals());
+      await new TrashCommand(config, logger).restore(item);
+    });
+
+  trash
+    .command('empty')
+    .description('Empty the trash, or only items deleted some time ago')
+    .option('--older-than <days>', 'Only remove items deleted more than this many days ago')
+    .action(async (_options, command: Command) => {
+      await runTrashEmpty(command.optsWithGlobals());
+    });
+
+  const schedule = program
+    .command('schedule')
+    .description('Run cleanups automatically with systemd user timers or cron');
+
+  schedule
+    .command('add')
+    .description('Schedule a recurring cleanup')
+    .option('--hourly', 'Run every hour')
+    .option('--daily', 'Run every day')
+    .option('--weekly', 'Run every week')
+    .option('--monthly', 'Run every month')
+    .option('--tasks <list>', 'Comma-separated tasks to run, e.g. temp,cache (default: the default tasks)')
+    .option('--name <name>', 'Name of the schedule (default: frequency and tasks)')
+    .option('--backend <name>', 'Scheduler to use: systemd or cron (default: systemd when available)')
+    .action(async (_options, command: Command) => {
+      const options = command.optsWithGlobals();
+      const { config, logger } = await loadContext(options);
+      await new ScheduleCommand(config, logger, registry).add(options);
+    });
+
+  schedule
+    .command('list')
+    .description('List scheduled cleanups and their last run')
+    .action(async (_options, command: Command) => {
+      const { config, logger } = await loadContext(command.optsWithGlobals());
+      await new ScheduleCommand(config, logger, registry).list();
+    });
+
+  schedule
+    .command('remove <name>')
+    .description('Remove a scheduled cleanup from the scheduler')
+    .action(async (name: string, _options, command: Command) => {
+      const { config, logger } = await loadContext(command.optsWithGlobals());
+      await new ScheduleCommand(config, logger, registry).remove(name);
+    });
+
+  program
+    .command('watch')
+    .description('Watch free disk space and clean up in escalating stages when it runs low')
+    .option('--interval <seconds>', 'Seconds between checks (default: watch.intervalSeconds)')
+    .option('--threshold <space>', 'Clean up when free space drops below this, e.g. 10% or 5GB')
+    .option('--target <space>', 'Stop cleaning as soon as this much space is free')
+    .option('--once', 'Check once and exit instead of running as a daemon')
+    .action(async (_options, command: Command) => {
+      const options = command.optsWithGlobals();
+      const { config, logger } = await loadContext(options);
+      await new WatchCommand(config, logger, registry, options.dryRun, options.debug).run(options);
+    });
+
+  program
+    .command('scan')
+    .description('Write the exact list of files a cleanup would delete to a plan file')
+    .requiredOption('-o, --out <path>', 'Path of the plan file to write')
+    .action(async (_options, command: Command) => {
+      await runScan(command.optsWithGlobals());
+    });
+
+  program
+    .command('apply <plan>')
+    .description('Delete the entries of a plan file that are unchanged since the scan')
+    .action(async (planPath: string, _options, command: Command) => {
+      await runApply(planPath, command.optsWithGlobals());
+    });
+
+  program
+    .command('undo [run-id]')
+    .description('Revert the operations recorded in the journal of the last (or given) run')
+    .action(async (runId: string | undefined, _options, command: Command) => {
+      const globals = command.optsWithGlobals();
+      const { config, logger } = await loadContext(globals);
+      await new UndoCommand(config, logger, globals.dryRun).run(runId);
+    });
+
+  program
+    .command('du [path]')
+    .description('Show which directories take up the most space (defaults to the home folder)')
+    .option('--depth <n>', 'Levels of the tree to show', '2')
+    .option('--sort <key>', 'Order entries by size, name or files', 'size')
+    .option('--limit <n>', 'Entries shown per directory', '10')
+    .option('--json', 'Print the tree as JSON')
+    .option('-i, --interactive', 'Drill into directories interactively')
+    .action(async (rootPath: string | undefined, _options, command: Command) => {
+      await runDiskUsage(rootPath || OSDetector.getHomeDirectory(), command.optsWithGlobals());
+    });
+
   try {
-    // Initialize configuration
-    const configManager = new ConfigManager(options.config);
-    const config = await configManager.loadConfig();
-    
-    // Initialize logger
-    const logger = new Logger(options.silent);
-    
-    // Initialize cleanup manager
-    const cleanupManager = new CleanupManager(config, logger, options.dryRun, options.debug);
-    
-    // Check if specific cleanup tasks were requested
-    const specificTasks = ['temp', 'cache', 'browsers', 'trash', 'downloads', 'largeFiles']
-      .filter(task => options[task]);
-    
+    await program.parseAsync();
+  } catch (error) {
+    console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+async function loadPlugins(): Promise<void> {
+  const configManager = new ConfigManager(getConfigArgument(process.argv));
+  const config = await configManager.loadConfig();
+  const errors = registry.loadPlugins(config.plugins, path.dirname(configManager.getConfigPath()));
+
+  errors.forEach(error => console.warn(chalk.yellow(`Warning: ${error}`)));
+}
+
+function getConfigArgument(argv: string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '-c' || argv[i] === '--config') {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith('--config=')) {
+      return argv[i].slice('--config='.length);
+    }
+  }
+
+  return undefined;
+}
+
+// Task ids of the task flags present in the parsed options
+function getRequestedTasks(options: any, kind?: string): string[] {
+  return registry.getAll()
+    .filter(cleaner => !kind || (cleaner.meta.kind || 'cleanup') === kind)
+    .map(cleaner => cleaner.meta.id)
+    .filter(id => options[id]);
+}
+
+async function loadContext(options: any): Promise<{ config: CleanupConfig; logger: Logger }> {
+  // Initialize configuration
+  const configManager = new ConfigManager(options.config);
+  const config = await configManager.loadConfig();
+
+  // A profile replaces settings key by key, the way the config file replaces the defaults
+  if (options.profile) {
+    const profile = config.profiles?.[options.profile];
+    if (!profile) {
+      throw new Error(`Unknown profile "${options.profile}", configured profiles: ${Object.keys(config.profiles || {}).join(', ') || 'none'}`);
+    }
+    Object.assign(config, profile);
+  }
+
+  // Initialize logger
+  const logger = new Logger(options.silent, options.logFile);
+
+  return { config, logger };
+}
+
+async function runCleanup(options: any) {
+  if (options.scheduled) {
+    await runScheduled(options);
+    return;
+  }
+
+  const { config, logger } = await loadContext(options);
+
+  if (options.waitForClose) {
+    config.browsers = { ...config.browsers, waitForClose: true };
+  }
+
+  // Initialize cleanup manager
+  const cleanupManager = new CleanupManager(config, logger, options.dryRun, options.debug, registry);
+
+  if (!options.dryRun) {
+    await cleanupManager.purgeExpiredQuarantine();
+  }
+
+  if (options.rebuildIndex) {
+    await cleanupManager.rebuildScanIndex();
+  }
+
+  // Check if specific cleanup tasks were requested
+  const specificTasks = getRequestedTasks(options);
+
+  if (specificTasks.length > 0) {
+    // Run specific tasks non-interactively
+    await runSpecificTasks(cleanupManager, specificTasks);
+    cleanupManager.printReclaimedSpace();
+  } else if (options.silent) {
+    // Run all tasks silently
+    await cleanupManager.runAllTasks();
+  } else {
+    // Run interactive mode
+    const interactive = new InteractiveMode(cleanupManager, logger);
+    await interactive.start();
+  }
+
+  // Generate report if requested
+  if (options.report) {
+    await cleanupManager.generateReport(options.report, options.reportFormat);
+  }
+}
+
+// Scheduled runs have nobody watching: no prompts, and the log and a report go to ~/.cleanmypc/runs/<job>/
+async function runScheduled(options: any) {
+  const runStamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const { logPath, reportPath } = ScheduleStore.getRunPaths(options.scheduled, runStamp);
+  const { config, logger } = await loadContext({ ...options, silent: true, logFile: logPath });
+
+  try {
+    const cleanupManager = new CleanupManager(config, logger, options.dryRun, options.debug, registry);
+    logger.info(`Scheduled cleanup ${options.scheduled}, run ${cleanupManager.getRunId()}${options.profile ? `, profile ${options.profile}` : ''}`);
+
+    if (!options.dryRun) {
+      await cleanupManager.purgeExpiredQuarantine();
+    }
+
+    const specificTasks = getRequestedTasks(options);
     if (specificTasks.length > 0) {
-      // Run specific tasks non-interactively
-      await runSpecificTasks(cleanupManager, specificTasks, options);
-    } else if (options.silent) {
-      // Run all tasks silently
-      await cleanupManager.runAllTasks();
+      await runSpecificTasks(cleanupManager, specificTasks);
     } else {
-      // Run interactive mode
-      const interactive = new InteractiveMode(cleanupManager, logger);
-      await interactive.start();
-    }
-    
-    // Generate report if requested
-    if (options.report) {
-      await cleanupManager.generateReport(options.report);
+      await cleanupManager.runAllTasks();
     }
-    
+
+    cleanupManager.logResults();
+    await cleanupManager.generateReport(options.report || reportPath, options.report ? options.reportFormat : undefined);
   } catch (error) {
-    console.error(chalk.red('Error:'), error instanceof Error ? error.message : 'Unknown error');
-    process.exit(1);
+    logger.error(`Scheduled cleanup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw error;
   }
 }
 
-async function runSpecificTasks(cleanupManager: CleanupManager, tasks: string[], options: any) {
-  for (const task of tasks) {
-    switch (task) {
-      case 'temp':
-        await cleanupManager.cleanTempFiles();
-        break;
-      case 'cache':
-        await cleanupManager.cleanCacheFiles();
-        break;
-      case 'browsers':
-        await cleanupManager.cleanBrowserCaches();
-        break;
-      case 'trash':
-        await cleanupManager.emptyTrash();
-        break;
-      case 'downloads':
-        await cleanupManager.organizeDownloads();
-        break;
-      case 'largeFiles':
-        await cleanupManager.findLargeFiles();
-        break;
+async function runScan(options: any) {
+  const { config, logger } = await loadContext(options);
+  const cleanupManager = new CleanupManager(config, logger, true, options.debug, registry);
+  const plan = cleanupManager.startPlan();
+
+  // Only deleting tasks produce plan entries; without flags, the same tasks a normal run would do
+  const requestedTasks = getRequestedTasks(options, 'cleanup');
+  const defaultTasks = registry.getDefaultEnabled()
+    .filter(cleaner => (cleaner.meta.kind || 'cleanup') === 'cleanup')
+    .map(cleaner => cleaner.meta.id);
+  await runSpecificTasks(cleanupManager, requestedTasks.length > 0 ? requestedTasks : defaultTasks);
+
+  await plan.save(options.out);
+  logger.success(`📝 Plan with ${plan.getEntries().length} entries written to ${options.out}`);
+
+  if (options.report) {
+    await cleanupManager.generateReport(options.report, options.reportFormat);
+  }
+}
+
+async function runApply(planPath: string, options: any) {
+  const { config, logger } = await loadContext(options);
+  const plan = await CleanupPlan.load(planPath);
+  const cleanupManager = new CleanupManager(config, logger, options.dryRun, options.debug, registry);
+
+  if (options.dryRun) {
+    logger.warn(chalk.yellow('⚠️  DRY RUN MODE - No files will actually be deleted'));
+  } else {
+    await cleanupManager.purgeExpiredQuarantine();
+  }
+
+  await cleanupManager.applyPlan(plan);
+  cleanupManager.printSummary();
+
+  if (options.report) {
+    await cleanupManager.generateReport(options.report, options.reportFormat);
+  }
+}
+
+async function runTrashEmpty(options: any) {
+  const { config, logger } = await loadContext(options);
+
+  if (options.olderThan !== undefined) {
+    const retentionDays = parseInt(options.olderThan, 10);
+    if (!(retentionDays >= 0)) {
+      throw new Error('--older-than must be a number of days');
     }
+    config.trash = { ...config.trash, retentionDays };
+  }
+
+  const cleanupManager = new CleanupManager(config, logger, options.dryRun, options.debug, registry);
+
+  if (options.dryRun) {
+    logger.warn(chalk.yellow('⚠️  DRY RUN MODE - No files will actually be deleted'));
+  } else {
+    await cleanupManager.purgeExpiredQuarantine();
+  }
+
+  await cleanupManager.runTask('trash');
+
+  if (options.report) {
+    await cleanupManager.generateReport(options.report, options.reportFormat);
+  }
+}
+
+async function runDiskUsage(rootPath: string, options: any) {
+  const sort = options.sort;
+  if (!['size', 'name', 'files'].includes(sort)) {
+    throw new Error(`Unknown sort key "${sort}", expected size, name or files`);
+  }
+
+  const depth = parseInt(options.depth, 10);
+  const limit = parseInt(options.limit, 10);
+  if (!(depth >= 0) || !(limit > 0)) {
+    throw new Error('--depth must be 0 or more and --limit at least 1');
+  }
+
+  const { config, logger } = await loadContext(options);
+  const cleanupManager = new CleanupManager(config, logger, options.dryRun, options.debug, registry);
+
+  if (options.rebuildIndex) {
+    await cleanupManager.rebuildScanIndex();
+  }
+
+  if (options.interactive) {
+    await new InteractiveMode(cleanupManager, logger).exploreDiskUsage(rootPath);
+    return;
+  }
+
+  await new DiskUsageCommand(logger, options.debug, cleanupManager.getScanIndex()).run(rootPath, { depth, sort, limit, json: options.json });
+}
+
+async function runSpecificTasks(cleanupManager: CleanupManager, tasks: string[]) {
+  for (const task of tasks) {
+    await cleanupManager.runTask(task);
   }
 }
 
@@ -0,0 +1,159 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { Logger } from '../utils/Logger';
+import { DiskUsageNode, DiskUsageScan, DiskUsageScanner, DiskUsageSort } from '../utils/DiskUsageScanner';
+import { ScanIndex } from '../utils/ScanIndex';
+import { formatBytes } from '../utils/formatBytes';
+
+export interface DiskUsageOptions {
+  depth: number;
+  sort: DiskUsageSort;
+  limit: number; // entries shown per directory, the rest is summarized
+  json?: boolean;
+}
+
+// One directory of the --json output, with its heaviest subdirectories down to --depth
+interface DiskUsageJsonEntry {
+  path: string;
+  size: number;
+  files: number;
+  percent: number;
+  children?: DiskUsageJsonEntry[];
+}
+
+const BAR_WIDTH = 20;
+
+export class DiskUsageCommand {
+  constructor(
+    private logger: Logger,
+    private debug: boolean = false,
+    private index?: ScanIndex
+  ) {}
+
+  async scan(rootPath: string, quiet: boolean = false): Promise<DiskUsageScan> {
+    const spinner = ora(`Measuring ${rootPath}...`);
+    if (!quiet) spinner.start();
+
+    try {
+      const scan = await new DiskUsageScanner(this.index).scan(rootPath);
+      spinner.stop();
+      await this.saveIndex();
+      return scan;
+    } catch (error) {
+      spinner.fail(chalk.red(`Failed to measure ${rootPath}`));
+      throw error;
+    }
+  }
+
+  async run(rootPath: string, options: DiskUsageOptions): Promise<void> {
+    const scan = await this.scan(rootPath, options.json);
+
+    if (options.json) {
+      // Plain stdout so the output can be piped
+      console.log(JSON.stringify({
+        root: this.toJson(scan.root, scan.root.size, options, 0),
+        errors: scan.errors
+      }, null, 2));
+      return;
+    }
+
+    this.print(scan, options);
+  }
+
+  print(scan: DiskUsageScan, options: DiskUsageOptions): void {
+    const { root } = scan;
+
+    this.logger.info(chalk.blue(`\n📊 Disk usage of ${root.path}: ${formatBytes(root.size)} in ${root.files.toLocaleString()} files\n`));
+    this.logger.info(this.formatRow(root.size, root.size, root.files, chalk.bold(root.path)));
+    this.printChildren(root, root.size, options, '', 1);
+
+    if (scan.errors.length > 0) {
+      this.logger.warn(`\n⚠️  ${scan.errors.length} item(s) could not be read and are not counted${this.debug ? ':' : ' (run with --debug to list them)'}`);
+      if (this.debug) {
+        scan.errors.forEach(error => console.log(`DEBUG: ${error}`));
+      }
+    }
+  }
+
+  private printChildren(node: DiskUsageNode, total: number, options: DiskUsageOptions, prefix: string, depth: number): void {
+    if (depth > options.depth) return;
+
+    const children = DiskUsageScanner.sortChildren(node, options.sort);
+    const shown = children.slice(0, options.limit);
+    const hidden = children.slice(options.limit);
+
+    const rows: Array<{ label: string; size: number; files: number; node?: DiskUsageNode }> = shown.map(child => ({
+      label: child.name,
+      size: child.size,
+      files: child.files,
+      node: child
+    }));
+
+    if (hidden.length > 0) {
+      rows.push({
+        label: chalk.gray(`… ${hidden.length} more`),
+        size: hidden.reduce((sum, child) => sum + child.size, 0),
+        files: hidden.reduce((sum, child) => sum + child.files, 0)
+      });
+    }
+
+    // Files directly in the directory, so the rows add up to their parent
+    if (node.ownFiles > 0 && node.children.length > 0) {
+      rows.push({ label: chalk.gray('[files]'), size: node.ownSize, files: node.ownFiles });
+    }
+
+    rows.forEach((row, index) => {
+      const last = index === rows.length - 1;
+      const branch = `${prefix}${last ? '└── ' : '├── '}`;
+
+      this.logger.info(this.formatRow(row.size, total, row.files, `${chalk.gray(branch)}${row.label}`));
+
+      if (row.node) {
+        this.printChildren(row.node, total, options, `${prefix}${last ? '    ' : '│   '}`, depth + 1);
+      }
+    });
+  }
+
+  formatRow(size: number, total: number, files: number, label: string): string {
+    const fraction = total > 0 ? size / total : 0;
+
+    return [
+      formatBytes(size).padStart(10),
+      `${(fraction * 100).toFixed(1)}%`.padStart(6),
+      this.formatBar(fraction),
+      files.toLocaleString().padStart(9),
+      label
+    ].join('  ');
+  }
+
+  private async saveIndex(): Promise<void> {
+    try {
+      await this.index?.save();
+    } catch (error) {
+      // The next scan just reads everything again
+      this.logger.warn(`Could not save the scan index: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private formatBar(fraction: number): string {
+    const filled = Math.round(fraction * BAR_WIDTH);
+    return chalk.cyan('█'.repeat(filled)) + chalk.gray('░'.repeat(BAR_WIDTH - filled));
+  }
+
+  private toJson(node: DiskUsageNode, total: number, options: DiskUsageOptions, depth: number): DiskUsageJsonEntry {
+    const entry: DiskUsageJsonEntry = {
+      path: node.path,
+      size: node.size,
+      files: node.files,
+      percent: total > 0 ? Math.round(node.size / total * 1000) / 10 : 0
+    };
+
+    if (depth < options.depth) {
+      entry.children = DiskUsageScanner.sortChildren(node, options.sort)
+        .slice(0, options.limit)
+        .map(child => this.toJson(child, total, options, depth + 1));
+    }
+
+    return entry;
+  }
+}
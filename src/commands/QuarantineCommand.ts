@@ -0,0 +1,65 @@
+import chalk from 'chalk';
+import { CleanupConfig } from '../utils/ConfigManager';
+import { Logger } from '../utils/Logger';
+import { QuarantineManager } from '../utils/QuarantineManager';
+import { formatBytes } from '../utils/formatBytes';
+
+export class QuarantineCommand {
+  private quarantine: QuarantineManager;
+
+  constructor(
+    private config: CleanupConfig,
+    private logger: Logger
+  ) {
+    // Management commands do not store anything, so they do not need a real run id
+    this.quarantine = new QuarantineManager('', config.quarantineRetentionDays);
+  }
+
+  async list(): Promise<void> {
+    const runs = await this.quarantine.listRuns();
+
+    if (runs.length === 0) {
+      this.logger.info(chalk.green('✅ Quarantine is empty.'));
+      return;
+    }
+
+    this.logger.info(chalk.blue(`\n🛡️  Quarantined runs (${this.quarantine.getRootDir()}):\n`));
+
+    runs.forEach(run => {
+      const expiry = this.quarantine.getExpiryDate(run);
+      const expiryText = expiry ? `expires ${expiry.toLocaleDateString()}` : 'kept until purged';
+
+      this.logger.info(`${chalk.bold(run.runId)}  ${run.createdAt.toLocaleString()}  ${run.entries.length} item(s), ${formatBytes(run.totalSize)}  ${chalk.gray(expiryText)}`);
+    });
+
+    if (!this.config.backupBeforeDelete) {
+      this.logger.info(chalk.gray('\nbackupBeforeDelete is disabled, new cleanups are not being quarantined.'));
+    }
+  }
+
+  async restore(runId: string): Promise<void> {
+    const result = await this.quarantine.restoreRun(runId);
+
+    this.logger.success(`✅ Restored ${result.restored.length} item(s) from run ${runId}`);
+
+    if (result.errors.length > 0) {
+      this.logger.warn(`⚠️  ${result.errors.length} item(s) could not be restored and remain in quarantine:`);
+      result.errors.forEach(error => this.logger.warn(`  - ${error}`));
+    }
+  }
+
+  async purge(runId?: string, options: { all?: boolean } = {}): Promise<void> {
+    if (runId) {
+      const freed = await this.quarantine.purgeRun(runId);
+      this.logger.success(`🗑️  Purged run ${runId}, ${formatBytes(freed)} freed`);
+      return;
+    }
+
+    const purged = options.all
+      ? await this.quarantine.purgeAll()
+      : await this.quarantine.purgeExpired();
+
+    const freed = purged.reduce((total, run) => total + run.totalSize, 0);
+    this.logger.success(`🗑️  Purged ${purged.length} ${options.all ? '' : 'expired '}run(s), ${formatBytes(freed)} freed`);
+  }
+}
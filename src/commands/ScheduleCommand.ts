@@ -0,0 +1,188 @@
+import chalk from 'chalk';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { TaskRegistry } from '../TaskRegistry';
+import { CleanupConfig } from '../utils/ConfigManager';
+import { Logger } from '../utils/Logger';
+import { CrontabBackend } from '../utils/schedule/CrontabBackend';
+import { SCHEDULE_FREQUENCIES, ScheduleBackend, ScheduledJob, ScheduleFrequency } from '../utils/schedule/ScheduleBackend';
+import { ScheduleStore } from '../utils/schedule/ScheduleStore';
+import { SystemdTimerBackend } from '../utils/schedule/SystemdTimerBackend';
+
+export interface ScheduleAddOptions {
+  hourly?: boolean;
+  daily?: boolean;
+  weekly?: boolean;
+  monthly?: boolean;
+  tasks?: string; // comma-separated task ids or flag names
+  name?: string;
+  backend?: string;
+  profile?: string;
+  config?: string;
+}
+
+const JOB_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export class ScheduleCommand {
+  private store = new ScheduleStore();
+  // Systemd timers come first: they catch up on missed runs and log to the journal
+  private backends: ScheduleBackend[] = [new SystemdTimerBackend(), new CrontabBackend()];
+
+  constructor(
+    private config: CleanupConfig,
+    private logger: Logger,
+    private registry: TaskRegistry
+  ) {}
+
+  async add(options: ScheduleAddOptions): Promise<void> {
+    const frequency = this.getFrequency(options);
+    const tasks = this.resolveTasks(options.tasks);
+
+    if (options.profile && !this.config.profiles?.[options.profile]) {
+      throw new Error(`Unknown profile "${options.profile}"`);
+    }
+
+    const id = options.name || `${frequency}-${options.tasks ? tasks.map(task => this.toFlagName(task)).join('-') : 'default'}`;
+    if (!JOB_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid schedule name "${id}", use lowercase letters, digits and dashes`);
+    }
+
+    if (await this.store.get(id)) {
+      throw new Error(`A schedule named ${id} already exists, remove it first or pick another --name`);
+    }
+
+    const backend = await this.chooseBackend(options.backend);
+    const job: ScheduledJob = {
+      id,
+      frequency,
+      tasks,
+      profile: options.profile,
+      backend: backend.name,
+      command: this.buildCommand(id, tasks, options),
+      createdAt: new Date().toISOString()
+    };
+
+    await backend.install(job);
+    await this.store.add(job);
+
+    this.logger.success(`⏰ Scheduled ${id}: ${this.describeJob(job)}`);
+    this.logger.info(chalk.gray(`Installed with ${backend.name}: ${backend.describe(job)}`));
+    this.logger.info(chalk.gray(`Reports and logs of each run go to ${path.join(ScheduleStore.getRunsDirectory(), id)}`));
+  }
+
+  async list(): Promise<void> {
+    const jobs = await this.store.list();
+
+    if (jobs.length === 0) {
+      this.logger.info(chalk.green('No scheduled cleanups. Add one with: cleanmypc schedule add --daily --tasks temp,cache'));
+      return;
+    }
+
+    this.logger.info(chalk.blue('\n⏰ Scheduled cleanups:\n'));
+
+    for (const job of jobs) {
+      const backend = this.backends.find(candidate => candidate.name === job.backend);
+      const installed = backend ? await backend.isInstalled(job) : false;
+      const lastRun = await this.store.getLastRun(job.id);
+
+      this.logger.info(`${chalk.bold(job.id)}  ${this.describeJob(job)}  ${chalk.gray(`via ${job.backend}`)}`);
+
+      if (!installed) {
+        this.logger.warn(`  ⚠️  Not found in ${job.backend} any more, it will not run. Remove it and add it again.`);
+      }
+
+      this.logger.info(chalk.gray(lastRun
+        ? `  Last run ${lastRun.startedAt.toLocaleString()}: ${lastRun.reportPath || lastRun.logPath}`
+        : '  Not run yet'));
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    const job = await this.store.get(id);
+    if (!job) {
+      throw new Error(`No schedule named ${id}`);
+    }
+
+    const backend = this.backends.find(candidate => candidate.name === job.backend);
+    if (backend) {
+      await backend.uninstall(job);
+    } else {
+      this.logger.warn(`⚠️  Unknown scheduler ${job.backend}, only forgetting the schedule`);
+    }
+
+    await this.store.remove(id);
+    this.logger.success(`🗑️  Removed schedule ${id}`);
+  }
+
+  private getFrequency(options: ScheduleAddOptions): ScheduleFrequency {
+    const chosen = SCHEDULE_FREQUENCIES.filter(frequency => options[frequency]);
+
+    if (chosen.length !== 1) {
+      throw new Error('Choose exactly one of --hourly, --daily, --weekly or --monthly');
+    }
+
+    return chosen[0];
+  }
+
+  // Without --tasks the default tasks are written into the job, so opt-in tasks added later never run unasked
+  private resolveTasks(list?: string): string[] {
+    if (!list) {
+      return this.registry.getDefaultEnabled().map(cleaner => cleaner.meta.id);
+    }
+
+    return this.registry.resolveTasks(list.split(',').map(name => name.trim()).filter(name => name));
+  }
+
+  private toFlagName(taskId: string): string {
+    const cleaner = this.registry.get(taskId);
+    return cleaner ? TaskRegistry.getFlag(cleaner.meta).slice(2) : taskId;
+  }
+
+  // Absolute paths throughout: cron and systemd start the job with a minimal environment
+  private buildCommand(id: string, tasks: string[], options: ScheduleAddOptions): string[] {
+    const command = [process.execPath, fs.realpathSync(process.argv[1]), '--scheduled', id];
+
+    if (options.config) {
+      command.push('--config', path.resolve(options.config));
+    }
+
+    if (options.profile) {
+      command.push('--profile', options.profile);
+    }
+
+    tasks.forEach(task => command.push(`--${this.toFlagName(task)}`));
+
+    return command;
+  }
+
+  private async chooseBackend(name?: string): Promise<ScheduleBackend> {
+    if (name) {
+      const backend = this.backends.find(candidate => candidate.name === name);
+
+      if (!backend) {
+        throw new Error(`Unknown scheduler "${name}", expected ${this.backends.map(candidate => candidate.name).join(' or ')}`);
+      }
+      if (!(await backend.isAvailable())) {
+        throw new Error(`${name} is not available on this system`);
+      }
+
+      return backend;
+    }
+
+    for (const backend of this.backends) {
+      if (await backend.isAvailable()) {
+        return backend;
+      }
+    }
+
+    throw new Error('Neither systemd user timers nor crontab are available on this system');
+  }
+
+  private describeJob(job: ScheduledJob): string {
+    // Jobs saved before the task list was resolved up front run the default tasks
+    const tasks = job.tasks.length > 0 ? job.tasks.map(task => this.toFlagName(task)).join(', ') : 'default tasks';
+    const profile = job.profile ? `, profile ${job.profile}` : '';
+
+    return `${job.frequency}: ${tasks}${profile}`;
+  }
+}
@@ -0,0 +1,104 @@
+import chalk from 'chalk';
+import * as path from 'path';
+import { CleanupConfig } from '../utils/ConfigManager';
+import { Logger } from '../utils/Logger';
+import { OSDetector } from '../utils/OSDetector';
+import { TrashDirectory, TrashItem, TrashStore } from '../utils/TrashStore';
+import { formatBytes } from '../utils/formatBytes';
+
+interface TrashVolume {
+  directory: TrashDirectory;
+  store: TrashStore;
+}
+
+export class TrashCommand {
+  constructor(
+    private config: CleanupConfig,
+    private logger: Logger
+  ) {
+    // .trashinfo files are part of the freedesktop.org trash specification
+    if (!OSDetector.isLinux()) {
+      throw new Error('Trash management follows the XDG trash specification and is only available on Linux');
+    }
+  }
+
+  async list(): Promise<void> {
+    const { volumes, problems } = await this.getVolumes();
+    const usage: string[] = [];
+    let shown = 0;
+
+    problems.forEach(problem => this.logger.warn(`⚠️  ${problem}`));
+
+    for (const { directory, store } of volumes) {
+      const items = (await store.list()).sort((a, b) => (b.deletionDate?.getTime() || 0) - (a.deletionDate?.getTime() || 0));
+      const totalSize = items.reduce((total, item) => total + item.size, 0);
+
+      usage.push(`${directory.mountPoint.padEnd(20)} ${formatBytes(totalSize).padStart(10)}  ${String(items.length).padStart(6)} item(s)  ${chalk.gray(directory.path)}`);
+      if (items.length === 0) continue;
+
+      this.logger.info(chalk.blue(`\n🗑️  ${directory.path} (on ${directory.mountPoint}): ${items.length} item(s), ${formatBytes(totalSize)}\n`));
+
+      items.forEach(item => {
+        const deleted = item.deletionDate ? item.deletionDate.toLocaleString() : 'unknown date';
+        const original = item.originalPath || chalk.yellow('(no .trashinfo)');
+        const suffix = item.type === 'directory' ? path.sep : '';
+
+        this.logger.info(`${deleted.padEnd(22)} ${formatBytes(item.size).padStart(10)}  ${original}${suffix}  ${chalk.gray(`[${item.name}]`)}`);
+      });
+
+      shown += items.length;
+    }
+
+    if (shown === 0) {
+      this.logger.info(chalk.green('✅ Trash is empty.'));
+      return;
+    }
+
+    if (usage.length > 1) {
+      this.logger.info(chalk.blue('\n💽 Trash usage per volume:\n'));
+      usage.forEach(line => this.logger.info(line));
+    }
+
+    const retentionDays = this.config.trash?.retentionDays || 0;
+    if (retentionDays > 0) {
+      this.logger.info(chalk.gray(`\nThe trash task empties items deleted more than ${retentionDays} day(s) ago.`));
+    }
+  }
+
+  // item is the name shown in brackets by list, or the path the item was deleted from
+  async restore(item: string): Promise<void> {
+    const { store, trashItem } = await this.findItem(item);
+    const restoredPath = await store.restore(trashItem);
+
+    this.logger.success(`✅ Restored ${restoredPath}`);
+  }
+
+  private async findItem(item: string): Promise<{ store: TrashStore; trashItem: TrashItem }> {
+    const originalPath = path.resolve(item);
+    const matches: Array<{ store: TrashStore; trashItem: TrashItem }> = [];
+
+    for (const { store } of (await this.getVolumes()).volumes) {
+      for (const trashItem of await store.list()) {
+        if (trashItem.name === item || trashItem.originalPath === originalPath) {
+          matches.push({ store, trashItem });
+        }
+      }
+    }
+
+    if (matches.length === 0) {
+      throw new Error(`Nothing in the trash is named or was deleted from ${item}`);
+    }
+
+    // The same path can be trashed more than once; the latest deletion is the one to bring back
+    return matches.sort((a, b) => (b.trashItem.deletionDate?.getTime() || 0) - (a.trashItem.deletionDate?.getTime() || 0))[0];
+  }
+
+  private async getVolumes(): Promise<{ volumes: TrashVolume[]; problems: string[] }> {
+    const { directories, problems } = await TrashStore.findTrashDirectories();
+
+    return {
+      volumes: directories.map(directory => ({ directory, store: new TrashStore(directory.path, directory.topDir) })),
+      problems
+    };
+  }
+}
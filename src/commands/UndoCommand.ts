@@ -0,0 +1,183 @@
+import * as fs from 'fs-extra';
+import chalk from 'chalk';
+import { CleanupConfig } from '../utils/ConfigManager';
+import { Logger } from '../utils/Logger';
+import { OperationJournal, JournalRecord, JournalRun } from '../utils/OperationJournal';
+import { QuarantineManager, QuarantineEntry } from '../utils/QuarantineManager';
+
+interface UndoOutcome {
+  reverted: string[];
+  irreversible: string[];
+}
+
+export class UndoCommand {
+  private journal: OperationJournal;
+  private quarantine: QuarantineManager;
+
+  constructor(
+    private config: CleanupConfig,
+    private logger: Logger,
+    private dryRun: boolean = false
+  ) {
+    this.journal = new OperationJournal('');
+    this.quarantine = new QuarantineManager('', config.quarantineRetentionDays);
+  }
+
+  async run(runId?: string): Promise<void> {
+    const run = runId ? await this.journal.getRun(runId) : await this.journal.getLastRun();
+
+    if (!run) {
+      this.logger.info(chalk.yellow(runId ? `No journal found for run ${runId}` : 'Nothing to undo.'));
+      return;
+    }
+
+    if (run.undone) {
+      this.logger.warn(`Run ${run.runId} has already been undone.`);
+      return;
+    }
+
+    this.logger.info(chalk.blue(`↩️  ${this.dryRun ? 'Would undo' : 'Undoing'} run ${run.runId} (${run.records.length} operation(s))`));
+
+    const outcome = await this.undoRun(run);
+
+    if (!this.dryRun) {
+      await this.journal.markUndone(run);
+    }
+
+    this.logger.success(`✅ ${this.dryRun ? 'Would revert' : 'Reverted'} ${outcome.reverted.length} operation(s)`);
+
+    if (outcome.irreversible.length > 0) {
+      this.logger.warn(`⚠️  ${outcome.irreversible.length} operation(s) could not be reversed:`);
+      outcome.irreversible.forEach(message => this.logger.warn(`  - ${message}`));
+    }
+  }
+
+  private async undoRun(run: JournalRun): Promise<UndoOutcome> {
+    const outcome: UndoOutcome = { reverted: [], irreversible: [] };
+    const backups: Array<{ record: JournalRecord; entry: QuarantineEntry }> = [];
+
+    // Replay the journal backwards so later operations are reverted before the ones they depended on
+    for (const record of [...run.records].reverse()) {
+      switch (record.op) {
+        case 'move':
+          await this.undoMove(record, outcome);
+          break;
+        case 'mkdir':
+          await this.undoMkdir(record, outcome);
+          break;
+        case 'link':
+          await this.undoLink(record, outcome);
+          break;
+        case 'delete':
+        case 'rmdir':
+        case 'replace':
+          if (record.backup) {
+            backups.push({ record, entry: record.backup });
+          } else if (record.op === 'replace') {
+            outcome.irreversible.push(`${record.path}: replaced by an edited version (no backup)`);
+          } else {
+            outcome.irreversible.push(`${record.path}: permanently deleted (no backup)`);
+          }
+          break;
+      }
+    }
+
+    if (backups.length > 0) {
+      await this.restoreBackups(run.runId, backups, outcome);
+    }
+
+    return outcome;
+  }
+
+  private async undoMove(record: JournalRecord, outcome: UndoOutcome): Promise<void> {
+    const destination = record.destination!;
+
+    if (!(await fs.pathExists(destination))) {
+      outcome.irreversible.push(`${record.path}: moved file no longer exists at ${destination}`);
+      return;
+    }
+
+    if (await fs.pathExists(record.path)) {
+      outcome.irreversible.push(`${record.path}: original location is occupied by another file`);
+      return;
+    }
+
+    if (!this.dryRun) {
+      try {
+        await fs.move(destination, record.path);
+      } catch (error) {
+        outcome.irreversible.push(`${record.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return;
+      }
+    }
+
+    outcome.reverted.push(record.path);
+  }
+
+  // The original had the same content as the file it was linked to, so an independent copy restores it
+  private async undoLink(record: JournalRecord, outcome: UndoOutcome): Promise<void> {
+    const source = record.destination!;
+
+    try {
+      const [linkStats, sourceStats] = await Promise.all([fs.stat(record.path), fs.stat(source)]);
+
+      if (linkStats.ino !== sourceStats.ino || linkStats.dev !== sourceStats.dev) {
+        outcome.irreversible.push(`${record.path}: no longer a hardlink to ${source}`);
+        return;
+      }
+
+      if (!this.dryRun) {
+        const tempPath = `${record.path}.cleanmypc-unlink`;
+        await fs.copy(source, tempPath, { preserveTimestamps: true });
+        await fs.rename(tempPath, record.path);
+      }
+
+      outcome.reverted.push(record.path);
+    } catch (error) {
+      outcome.irreversible.push(`${record.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async undoMkdir(record: JournalRecord, outcome: UndoOutcome): Promise<void> {
+    try {
+      const items = await fs.readdir(record.path);
+
+      // Only remove directories we created that are empty again
+      if (items.length > 0) {
+        return;
+      }
+
+      if (!this.dryRun) {
+        await fs.rmdir(record.path);
+      }
+
+      outcome.reverted.push(record.path);
+    } catch {
+      // Directory is already gone
+    }
+  }
+
+  private async restoreBackups(
+    runId: string,
+    backups: Array<{ record: JournalRecord; entry: QuarantineEntry }>,
+    outcome: UndoOutcome
+  ): Promise<void> {
+    if (this.dryRun) {
+      backups.forEach(({ record }) => outcome.reverted.push(record.path));
+      return;
+    }
+
+    try {
+      // The quarantine restores in reverse itself, so hand the entries over in journal order
+      const entries = backups.map(backup => backup.entry).reverse();
+      const result = await this.quarantine.restoreEntries(runId, entries);
+
+      outcome.reverted.push(...result.restored);
+      outcome.irreversible.push(...result.errors);
+    } catch (error) {
+      backups.forEach(({ record }) => {
+        outcome.irreversible.push(`${record.path}: ${error instanceof Error ? error.message : 'backup is no longer available'}`);
+      });
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import chalk from 'chalk';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { CleanupManager } from '../CleanupManager';
+import { TaskRegistry } from '../TaskRegistry';
+import { CleanupConfig, WatchStage } from '../utils/ConfigManager';
+import { DiskSpace } from '../utils/DiskSpace';
+import { Logger } from '../utils/Logger';
+import { OSDetector } from '../utils/OSDetector';
+import { formatBytes } from '../utils/formatBytes';
+
+export interface WatchOptions {
+  interval?: string; // seconds
+  threshold?: string;
+  target?: string;
+  once?: boolean;
+}
+
+interface WatchedFilesystem {
+  path: string; // the first watched path on it
+  device: number;
+  total: number;
+  threshold: number; // in bytes
+  target: number;
+  exhaustedAt?: number; // free space left after the last round ran every stage without reaching the target
+}
+
+interface ResolvedStage extends WatchStage {
+  taskIds: string[];
+}
+
+// After a round that could not reach the target, the next one waits until free space dropped this much further
+const REARM_FRACTION = 0.01;
+
+export class WatchCommand {
+  private stopping = false;
+  private wakeUp?: () => void;
+
+  constructor(
+    private config: CleanupConfig,
+    private logger: Logger,
+    private registry: TaskRegistry,
+    private dryRun: boolean = false,
+    private debug: boolean = false
+  ) {}
+
+  async run(options: WatchOptions = {}): Promise<void> {
+    const settings = this.config.watch;
+    const intervalSeconds = options.interval !== undefined ? parseInt(options.interval, 10) : settings.intervalSeconds;
+
+    if (!(intervalSeconds > 0)) {
+      throw new Error('The watch interval must be at least 1 second');
+    }
+
+    // Everything is validated up front so a typo does not surface hours later, when the disk fills up
+    const stages = this.resolveStages(settings.stages);
+    const filesystems = await this.findFilesystems(options.threshold || settings.threshold, options.target || settings.target);
+
+    if (this.config.backupBeforeDelete && !this.dryRun) {
+      this.logger.warn('⚠️  backupBeforeDelete is on: quarantined files stay on disk, so cleanups free little or no space');
+    }
+
+    filesystems.forEach(filesystem => {
+      this.log(chalk.blue(`👀 Watching ${filesystem.path}: cleaning up below ${formatBytes(filesystem.threshold)} free, until ${formatBytes(filesystem.target)} is free`));
+    });
+    this.log(chalk.gray(`Checking every ${intervalSeconds}s, ${stages.length} stage(s): ${stages.map(stage => stage.name).join(' → ')}`));
+
+    const stop = () => {
+      this.stopping = true;
+      this.wakeUp?.();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    try {
+      while (!this.stopping) {
+        await this.check(filesystems, stages);
+
+        if (options.once) break;
+        await this.sleep(intervalSeconds * 1000);
+      }
+    } finally {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+    }
+
+    this.log('Watch stopped');
+  }
+
+  private async check(filesystems: WatchedFilesystem[], stages: ResolvedStage[]): Promise<void> {
+    const low: WatchedFilesystem[] = [];
+
+    for (const filesystem of filesystems) {
+      const available = await this.measure(filesystem);
+      if (available === undefined) continue;
+
+      if (available >= filesystem.threshold) {
+        filesystem.exhaustedAt = undefined;
+        continue;
+      }
+
+      // Every stage already ran; running them again before more space is used would find nothing new
+      if (filesystem.exhaustedAt !== undefined && available > filesystem.exhaustedAt - filesystem.total * REARM_FRACTION) {
+        continue;
+      }
+
+      this.log(chalk.yellow(`⚠️  Low disk space on ${filesystem.path}: ${this.describeSpace(available, filesystem)} free, below ${formatBytes(filesystem.threshold)}`));
+      low.push(filesystem);
+    }
+
+    if (low.length > 0) {
+      await this.escalate(low, stages);
+    }
+  }
+
+  // Runs the stages in order and stops as soon as every low filesystem has reached its target
+  private async escalate(filesystems: WatchedFilesystem[], stages: ResolvedStage[]): Promise<void> {
+    let remaining = filesystems;
+    const freeSpace = new Map<WatchedFilesystem, number>();
+
+    for (const [index, stage] of stages.entries()) {
+      if (this.stopping) return;
+
+      const age = stage.maxFileAge !== undefined ? `, files older than ${stage.maxFileAge} day(s)` : '';
+      this.log(chalk.blue(`⏫ Stage ${index + 1}/${stages.length}: ${stage.name} (${stage.taskIds.join(', ')}${age})`));
+
+      await this.runStage(stage);
+
+      const stillLow: WatchedFilesystem[] = [];
+      for (const filesystem of remaining) {
+        const available = await this.measure(filesystem);
+
+        // A filesystem that cannot be measured right now is assumed to still be low
+        if (available === undefined) {
+          stillLow.push(filesystem);
+          continue;
+        }
+
+        freeSpace.set(filesystem, available);
+
+        this.log(`   ${filesystem.path}: ${this.describeSpace(available, filesystem)} free`);
+        if (available < filesystem.target) {
+          stillLow.push(filesystem);
+        }
+      }
+
+      remaining = stillLow;
+      if (remaining.length === 0) {
+        this.log(chalk.green(`✅ Target free space reached after stage ${index + 1} (${stage.name})`));
+        return;
+      }
+    }
+
+    remaining.forEach(filesystem => {
+      filesystem.exhaustedAt = freeSpace.get(filesystem);
+      this.log(chalk.yellow(`⚠️  All stages ran and ${filesystem.path} is still below its target of ${formatBytes(filesystem.target)}; cleaning again once it fills up further`));
+    });
+  }
+
+  private async runStage(stage: ResolvedStage): Promise<void> {
+    const config = stage.maxFileAge !== undefined ? { ...this.config, maxFileAge: stage.maxFileAge } : this.config;
+    const cleanupManager = new CleanupManager(config, this.logger, this.dryRun, this.debug, this.registry);
+
+    for (const taskId of stage.taskIds) {
+      if (this.stopping) return;
+      await cleanupManager.runTask(taskId);
+    }
+  }
+
+  // A filesystem that was unmounted or became unreadable must not stop the watch of the others
+  private async measure(filesystem: WatchedFilesystem): Promise<number | undefined> {
+    try {
+      return (await DiskSpace.measure(filesystem.path)).available;
+    } catch (error) {
+      this.log(chalk.yellow(`⚠️  Could not measure free space on ${filesystem.path}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      return undefined;
+    }
+  }
+
+  private resolveStages(stages: WatchStage[]): ResolvedStage[] {
+    if (!stages || stages.length === 0) {
+      throw new Error('watch.stages is empty, there is nothing to run when space runs low');
+    }
+
+    return stages.map(stage => ({ ...stage, taskIds: this.registry.resolveTasks(stage.tasks) }));
+  }
+
+  // Watched paths on the same filesystem are checked once
+  private async findFilesystems(threshold: string, target: string): Promise<WatchedFilesystem[]> {
+    const configured = this.config.watch.paths || [];
+    const paths = configured.length > 0 ? configured : [OSDetector.getHomeDirectory()];
+    const filesystems: WatchedFilesystem[] = [];
+
+    for (const watchedPath of paths.map(entry => path.resolve(OSDetector.expandHome(entry)))) {
+      const { dev } = await fs.stat(watchedPath);
+      if (filesystems.some(filesystem => filesystem.device === dev)) continue;
+
+      const { total } = await DiskSpace.measure(watchedPath);
+      const filesystem: WatchedFilesystem = {
+        path: watchedPath,
+        device: dev,
+        total,
+        threshold: DiskSpace.parseAmount(threshold, total),
+        target: DiskSpace.parseAmount(target, total)
+      };
+
+      if (filesystem.target < filesystem.threshold) {
+        throw new Error(`The target (${target}) must be at least the threshold (${threshold})`);
+      }
+
+      filesystems.push(filesystem);
+    }
+
+    return filesystems;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  private log(message: string): void {
+    this.logger.info(`${chalk.gray(`[${new Date().toLocaleString()}]`)} ${message}`);
+  }
+
+  private describeSpace(available: number, filesystem: WatchedFilesystem): string {
+    const percentage = filesystem.total > 0 ? (available / filesystem.total * 100).toFixed(1) : '0';
+    return `${formatBytes(available)} (${percentage}%)`;
+  }
+}
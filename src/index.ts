@@ -0,0 +1,6 @@
+// Public API for cleaner plugins
+export { BaseCleaner, CleanerContext, CleanerClass, TaskMetadata } from './modules/BaseCleaner';
+export { CleanupResult, SkippedItem } from './CleanupManager';
+export { CleanupConfig } from './utils/ConfigManager';
+export { OSDetector, OSType } from './utils/OSDetector';
+export { TaskRegistry } from './TaskRegistry';
@@ -1,39 +1,108 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { glob } from 'fast-glob';
+import micromatch from 'micromatch';
 import { CleanupConfig } from '../utils/ConfigManager';
-import { CleanupResult } from '../CleanupManager';
+import { AffectedFile, CleanupResult, SkippedItem } from '../CleanupManager';
+import { QuarantineManager, QuarantineEntry } from '../utils/QuarantineManager';
+import { OperationJournal } from '../utils/OperationJournal';
+import { CleanupPlan } from '../utils/CleanupPlan';
+import { OpenFileDetector } from '../utils/OpenFileDetector';
+import { PathGuard, PathRefusal } from '../utils/PathGuard';
+import { ExclusionMatcher } from '../utils/ExclusionMatcher';
+import { EntryStats, FileWalker, WalkEntry } from '../utils/FileWalker';
+import { SpaceTracker } from '../utils/SpaceTracker';
+import { OSType } from '../utils/OSDetector';
+
+// Run-wide services shared by every cleaner of a cleanup run
+export interface CleanerContext {
+  quarantine?: QuarantineManager;
+  journal?: OperationJournal;
+  plan?: CleanupPlan; // when set, deletions are recorded as plan entries instead of performed
+  openFiles?: OpenFileDetector;
+  guard?: PathGuard;
+  exclusions?: ExclusionMatcher;
+  walker?: FileWalker;
+  space?: SpaceTracker;
+}
+
+// Describes a cleaner to the task registry, the CLI flags and the interactive checklist
+export interface TaskMetadata {
+  id: string; // camelCase, also used as the CLI flag (largeFiles -> --large-files)
+  title: string;
+  description: string;
+  icon?: string;
+  defaultEnabled: boolean;
+  platforms?: OSType[]; // all platforms when omitted
+  kind?: 'cleanup' | 'organize' | 'report'; // only cleanup tasks take part in scan plans
+}
+
+export type CleanerClass = {
+  new (config: CleanupConfig, dryRun?: boolean, debug?: boolean, context?: CleanerContext): BaseCleaner;
+  meta: TaskMetadata;
+};
 
 export abstract class BaseCleaner {
   protected errors: string[] = [];
+  protected skipped: SkippedItem[] = [];
+  protected refusals: PathRefusal[] = [];
+  private affected: AffectedFile[] = [];
+  private matchedRules = new Map<string, string>();
+  protected guard: PathGuard;
+  protected exclusions: ExclusionMatcher;
+  protected walker: FileWalker;
 
   constructor(
     protected config: CleanupConfig,
     protected dryRun: boolean = false,
-    protected debug: boolean = false
-  ) {}
+    protected debug: boolean = false,
+    protected context: CleanerContext = {}
+  ) {
+    this.guard = context.guard || new PathGuard();
+    this.exclusions = context.exclusions || new ExclusionMatcher(config.exclusions);
+    this.walker = context.walker || new FileWalker(config.scanConcurrency);
+  }
 
   abstract clean(): Promise<CleanupResult>;
 
   protected async getFileSize(filePath: string): Promise<number> {
-    try {
-      const stats = await fs.stat(filePath);
-      return stats.size;
-    } catch {
-      return 0;
-    }
+    const stats = await this.walker.stat(filePath);
+    return stats ? stats.size : 0;
   }
 
-  protected async deleteFile(filePath: string): Promise<{ deleted: boolean; size: number }> {
+  // root is the location the cleaner was asked to clean; the path must resolve inside it
+  protected async deleteFile(filePath: string, root?: string): Promise<{ deleted: boolean; size: number }> {
     try {
-      const size = await this.getFileSize(filePath);
+      if (!(await this.isSafe(filePath, root))) {
+        return { deleted: false, size: 0 };
+      }
       
-      if (!this.dryRun) {
+      const removed = await this.getRemovedStats(filePath);
+      const size = removed.length > 0 ? removed[0].size : 0;
+      let backup: QuarantineEntry | undefined;
+      
+      if (this.context.plan) {
+        await this.context.plan.add(filePath, 'file', size, this.getMatchedRule(filePath), root, this.requiresQuarantine());
+      } else if (!this.dryRun) {
         // Check if file exists and is accessible
         await fs.access(filePath, fs.constants.W_OK);
-        await fs.remove(filePath);
+        await this.prepareSpace(filePath, removed);
+        
+        if (this.shouldQuarantine()) {
+          backup = await this.context.quarantine!.store(filePath, 'file', size);
+        } else {
+          await fs.remove(filePath);
+        }
+        
+        await this.walker.forget(filePath);
+        await this.context.journal?.record('delete', filePath, { size, backup });
+      }
+      
+      // Quarantined files stay on disk until purged, so they free nothing yet
+      if (!this.context.plan && !this.shouldQuarantine()) {
+        await this.context.space?.record(filePath, removed);
       }
       
+      this.affected.push({ path: filePath, action: 'delete', size, quarantined: backup !== undefined });
       return { deleted: true, size };
     } catch (error) {
       this.errors.push(`Failed to delete ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -41,14 +110,36 @@ export abstract class BaseCleaner {
     }
   }
 
-  protected async deleteDirectory(dirPath: string): Promise<{ deleted: boolean; size: number }> {
+  protected async deleteDirectory(dirPath: string, root?: string): Promise<{ deleted: boolean; size: number }> {
     try {
+      if (!(await this.isSafe(dirPath, root))) {
+        return { deleted: false, size: 0 };
+      }
+      
       const size = await this.getDirectorySize(dirPath);
+      const removed = this.context.plan ? [] : await this.getRemovedStats(dirPath, true);
+      let backup: QuarantineEntry | undefined;
       
-      if (!this.dryRun) {
-        await fs.remove(dirPath);
+      if (this.context.plan) {
+        await this.context.plan.add(dirPath, 'directory', size, this.getMatchedRule(dirPath), root, this.requiresQuarantine());
+      } else if (!this.dryRun) {
+        await this.prepareSpace(dirPath, removed);
+        
+        if (this.shouldQuarantine()) {
+          backup = await this.context.quarantine!.store(dirPath, 'directory', size);
+        } else {
+          await fs.remove(dirPath);
+        }
+        
+        await this.walker.forget(dirPath);
+        await this.context.journal?.record('rmdir', dirPath, { size, backup });
       }
       
+      if (!this.shouldQuarantine()) {
+        await this.context.space?.record(dirPath, removed);
+      }
+      
+      this.affected.push({ path: dirPath, action: 'rmdir', size, quarantined: backup !== undefined });
       return { deleted: true, size };
     } catch (error) {
       this.errors.push(`Failed to delete directory ${dirPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -56,26 +147,160 @@ export abstract class BaseCleaner {
     }
   }
 
-  protected async getDirectorySize(dirPath: string): Promise<number> {
+  // Refuses symlink escapes out of the cleanup root and anything under a protected location
+  private async isSafe(targetPath: string, root?: string, action = 'delete'): Promise<boolean> {
+    const refusal = await this.guard.check(targetPath, root);
+    
+    if (refusal) {
+      // Overlapping search roots can reach the same path more than once
+      if (!this.refusals.some(item => item.path === refusal.path && item.root === refusal.root)) {
+        this.refusals.push(refusal);
+        this.errors.push(`Refused to ${action} ${targetPath}: ${refusal.reason}`);
+      }
+      return false;
+    }
+    
+    return true;
+  }
+
+  // Returns false when the guard refused to move the file
+  protected async moveFile(sourcePath: string, destinationPath: string, root?: string): Promise<boolean> {
+    if (!(await this.isSafe(sourcePath, root, 'move'))) {
+      return false;
+    }
+
+    const size = await this.getFileSize(sourcePath);
+    
+    if (!this.dryRun) {
+      await fs.move(sourcePath, destinationPath);
+      await this.walker.forget(sourcePath);
+      this.walker.invalidate(path.dirname(destinationPath));
+      await this.context.journal?.record('move', sourcePath, { destination: destinationPath, size });
+    }
+    
+    this.affected.push({ path: sourcePath, action: 'move', size, destination: destinationPath });
+    return true;
+  }
+
+  // Replaces targetPath with a hardlink to sourcePath; both must be on the same filesystem
+  protected async linkFile(targetPath: string, sourcePath: string, root?: string): Promise<{ linked: boolean; size: number }> {
+    // Link under a temporary name first so the target is swapped atomically
+    const tempPath = `${targetPath}.cleanmypc-link`;
+    
     try {
-      let totalSize = 0;
-      const items = await fs.readdir(dirPath);
+      if (!(await this.isSafe(targetPath, root))) {
+        return { linked: false, size: 0 };
+      }
       
-      for (const item of items) {
-        const itemPath = path.join(dirPath, item);
-        const stats = await fs.stat(itemPath);
+      const removed = await this.getRemovedStats(targetPath);
+      const size = removed.length > 0 ? removed[0].size : 0;
+      
+      if (!this.dryRun) {
+        await this.prepareSpace(targetPath, removed);
         
-        if (stats.isDirectory()) {
-          totalSize += await this.getDirectorySize(itemPath);
-        } else {
-          totalSize += stats.size;
-        }
+        await fs.remove(tempPath);
+        await fs.link(sourcePath, tempPath);
+        await fs.rename(tempPath, targetPath);
+        
+        await this.walker.forget(targetPath);
+        await this.context.journal?.record('link', targetPath, { destination: sourcePath, size });
       }
       
-      return totalSize;
+      await this.context.space?.record(targetPath, removed);
+      
+      this.affected.push({ path: targetPath, action: 'link', size, destination: sourcePath });
+      return { linked: true, size };
+    } catch (error) {
+      // A link that could not be swapped in must not stay behind next to the target
+      if (!this.dryRun) {
+        await fs.remove(tempPath).catch(() => undefined);
+      }
+      this.errors.push(`Failed to hardlink ${targetPath} to ${sourcePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { linked: false, size: 0 };
+    }
+  }
+
+  // Stats of everything a deletion removes, taken before the walker forgets them
+  private async getRemovedStats(targetPath: string, recursive: boolean = false): Promise<EntryStats[]> {
+    const stats = await this.walker.stat(targetPath);
+    
+    if (!stats) {
+      return [];
+    }
+    
+    if (!recursive || !this.context.space) {
+      return [stats];
+    }
+    
+    return [stats, ...(await this.walker.walk(targetPath)).map(entry => entry.stats)];
+  }
+  
+  // Measures free space on the filesystem before the first deletion from it
+  protected async prepareSpace(targetPath: string, removed: EntryStats[]): Promise<void> {
+    if (removed.length > 0) {
+      await this.context.space?.prepare(targetPath, removed[0]);
+    }
+  }
+
+  protected async ensureDirectory(dirPath: string): Promise<void> {
+    if (this.dryRun || await this.pathExists(dirPath)) return;
+    
+    await fs.ensureDir(dirPath);
+    this.walker.invalidate(path.dirname(dirPath));
+    await this.context.journal?.record('mkdir', dirPath);
+  }
+
+  // Returns why a path must be left alone: special files and paths held open by a running process
+  protected async getSkipReason(filePath: string): Promise<string | null> {
+    try {
+      const stats = await fs.lstat(filePath);
+      
+      if (stats.isSocket()) return 'socket';
+      if (stats.isFIFO()) return 'FIFO';
+      if (stats.isBlockDevice() || stats.isCharacterDevice()) return 'device node';
     } catch {
-      return 0;
+      return null;
     }
+    
+    if (this.context.openFiles && await this.context.openFiles.isOpen(filePath)) {
+      return 'in use';
+    }
+    
+    return null;
+  }
+
+  protected skipFile(filePath: string, reason: string): void {
+    // Overlapping search roots can reach the same file more than once
+    if (this.skipped.some(item => item.path === filePath)) return;
+    
+    this.skipped.push({ path: filePath, reason });
+    
+    if (this.debug) {
+      console.log(`DEBUG: Skipping ${filePath} (skipped: ${reason})`);
+    }
+  }
+
+  // Deletions are moved into the quarantine store instead when backups are enabled
+  protected shouldQuarantine(): boolean {
+    return (this.config.backupBeforeDelete || this.requiresQuarantine()) && this.context.quarantine !== undefined;
+  }
+
+  // True while deleting something that must be kept as a backup whatever backupBeforeDelete says
+  protected requiresQuarantine(): boolean {
+    return false;
+  }
+
+  protected async getDirectorySize(dirPath: string): Promise<number> {
+    const entries = await this.walker.walk(dirPath);
+    
+    return entries
+      .filter(entry => !entry.stats.isDirectory())
+      .reduce((total, entry) => total + entry.stats.size, 0);
+  }
+
+  protected async isDirectoryEmpty(dirPath: string): Promise<boolean> {
+    const stats = await this.walker.stat(dirPath);
+    return stats !== null && stats.isDirectory() && (await this.walker.list(dirPath)).length === 0;
   }
 
   protected async findFiles(patterns: string[], excludePatterns: string[] = []): Promise<string[]> {
@@ -86,20 +311,19 @@ export abstract class BaseCleaner {
         console.log(`DEBUG: BaseCleaner.findFiles config.exclusions:`, this.config.exclusions);
       }
       
-      // Convert Windows backslashes to forward slashes for fast-glob
+      // Convert Windows backslashes to forward slashes for glob matching
       const normalizedPatterns = patterns.map(pattern => pattern.replace(/\\/g, '/'));
       const normalizedExcludes = excludePatterns.map(pattern => pattern.replace(/\\/g, '/'));
-      const normalizedConfigExclusions = this.config.exclusions.map(pattern => pattern.replace(/\\/g, '/'));
       
       if (this.debug) {
         console.log(`DEBUG: Normalized patterns:`, normalizedPatterns);
       }
       
-      const files = await glob(normalizedPatterns, {
-        ignore: [...normalizedExcludes, ...normalizedConfigExclusions],
-        absolute: true,
-        onlyFiles: true
-      });
+      // config.exclusions and .cleanmypcignore files need gitignore semantics, so they are applied after globbing
+      const matches = await this.matchPaths(normalizedPatterns, normalizedExcludes, entry => entry.stats.isFile());
+      const files = await this.exclusions.filter(matches);
+      
+      this.rememberMatchedRules(files, normalizedPatterns);
       
       if (this.debug) {
         console.log(`DEBUG: BaseCleaner.findFiles found:`, files.length, 'files');
@@ -120,11 +344,12 @@ export abstract class BaseCleaner {
 
   protected async findDirectories(patterns: string[], excludePatterns: string[] = []): Promise<string[]> {
     try {
-      const dirs = await glob(patterns, {
-        ignore: [...excludePatterns, ...this.config.exclusions],
-        absolute: true,
-        onlyDirectories: true
-      });
+      const normalizedPatterns = patterns.map(pattern => pattern.replace(/\\/g, '/'));
+      const normalizedExcludes = excludePatterns.map(pattern => pattern.replace(/\\/g, '/'));
+      
+      const matches = await this.matchPaths(normalizedPatterns, normalizedExcludes, entry => entry.stats.isDirectory());
+      const dirs = await this.exclusions.filter(matches, true);
+      this.rememberMatchedRules(dirs, normalizedPatterns);
       return dirs;
     } catch (error) {
       this.errors.push(`Failed to find directories: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -132,20 +357,85 @@ export abstract class BaseCleaner {
     }
   }
 
-  protected isFileOldEnough(filePath: string, maxAgeInDays: number): boolean {
-    if (maxAgeInDays === 0) return true; // No age limit
+  // Expands glob patterns (dot files excluded, symlinks not followed) over the shared walker
+  private async matchPaths(patterns: string[], excludePatterns: string[], accept: (entry: WalkEntry) => boolean): Promise<string[]> {
+    const isIgnored = this.compileMatcher(excludePatterns, { dot: true });
+    const matches = new Set<string>();
     
-    try {
-      const stats = fs.statSync(filePath);
-      const fileAge = Date.now() - stats.mtime.getTime();
-      const maxAge = maxAgeInDays * 24 * 60 * 60 * 1000; // Convert days to milliseconds
+    for (const rawPattern of patterns) {
+      // A trailing slash only asks for directories, which accept() already decides
+      const pattern = this.toGlobPath(path.resolve(rawPattern.replace(/\/+$/, '') || '/'));
+      const scan = micromatch.scan(pattern);
       
-      return fileAge > maxAge;
-    } catch {
-      return false;
+      if (!scan.isGlob) {
+        const stats = await this.walker.stat(pattern);
+        if (stats && accept({ path: pattern, name: path.basename(pattern), stats }) && !isIgnored(pattern)) {
+          matches.add(pattern);
+        }
+        continue;
+      }
+      
+      const segments = scan.glob.split('/').filter(Boolean);
+      const isMatch = micromatch.matcher(pattern);
+      // Without ** nothing deeper than the pattern's own segments can match
+      const maxDepth = segments.includes('**') ? undefined : segments.length;
+      const includesDotSegments = segments.some(segment => segment.startsWith('.'));
+      
+      const entries = await this.walker.walk(scan.base || '/', {
+        maxDepth,
+        descend: entry => (includesDotSegments || !entry.name.startsWith('.')) && !isIgnored(this.toGlobPath(entry.path))
+      });
+      
+      for (const entry of entries) {
+        const entryPath = this.toGlobPath(entry.path);
+        if (accept(entry) && isMatch(entryPath) && !isIgnored(entryPath)) {
+          matches.add(entryPath);
+        }
+      }
+    }
+    
+    return [...matches];
+  }
+
+  private compileMatcher(patterns: string[], options: micromatch.Options): (target: string) => boolean {
+    const matchers = patterns.map(pattern => micromatch.matcher(pattern, options));
+    return target => matchers.some(matcher => matcher(target));
+  }
+
+  // Glob patterns and their matches use forward slashes on every platform
+  private toGlobPath(targetPath: string): string {
+    return targetPath.replace(/\\/g, '/');
+  }
+
+  // Plans record which glob selected each candidate, so only track it while planning
+  private rememberMatchedRules(paths: string[], patterns: string[]): void {
+    if (!this.context.plan) return;
+    
+    for (const matchedPath of paths) {
+      if (!this.matchedRules.has(matchedPath)) {
+        const rule = patterns.find(pattern => micromatch.isMatch(matchedPath, pattern.replace(/\\/g, '/')));
+        this.matchedRules.set(matchedPath, rule || patterns.join(', '));
+      }
     }
   }
 
+  protected getMatchedRule(filePath: string): string {
+    const normalizedPath = filePath.replace(/\\/g, '/');
+    return this.matchedRules.get(normalizedPath) || this.matchedRules.get(normalizedPath + '/') || 'direct path';
+  }
+
+  protected async isFileOldEnough(filePath: string, maxAgeInDays: number): Promise<boolean> {
+    if (maxAgeInDays === 0) return true; // No age limit
+    
+    const stats = await this.walker.stat(filePath);
+    if (!stats) return false;
+    
+    const fileAge = Date.now() - stats.mtimeMs;
+    const maxAge = maxAgeInDays * 24 * 60 * 60 * 1000; // Convert days to milliseconds
+    
+    return fileAge > maxAge;
+  }
+
   protected async pathExists(path: string): Promise<boolean> {
     try {
       await fs.access(path);
@@ -155,11 +445,29 @@ export abstract class BaseCleaner {
     }
   }
 
+  // Everything the cleaner deleted, moved or hardlinked, or would have in a dry run
+  getAffectedFiles(): AffectedFile[] {
+    return this.affected;
+  }
+
   protected getErrors(): string[] {
     return [...this.errors];
   }
 
   protected clearErrors(): void {
     this.errors = [];
+    this.refusals = [];
+  }
+
+  protected getRefusals(): PathRefusal[] {
+    return [...this.refusals];
+  }
+
+  protected getSkipped(): SkippedItem[] {
+    return [...this.skipped];
+  }
+
+  protected clearSkipped(): void {
+    this.skipped = [];
   }
 }
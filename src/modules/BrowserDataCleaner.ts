@@ -0,0 +1,462 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { TaskMetadata } from './BaseCleaner';
+import { BrowserDataResult, CleanupResult } from '../CleanupManager';
+import { SqliteShell } from '../utils/SqliteShell';
+import { BrowserProfileCleaner } from './browsers/BrowserProfileCleaner';
+import { BrowserDescriptor } from './browsers/BrowserDescriptors';
+import { BrowserProfile } from './browsers/BrowserProfileFinder';
+
+interface DatabaseEdit {
+  countSql: string; // a SELECT returning the number of rows the edit removes
+  editSql: string; // statements run in one transaction
+}
+
+interface SiteDataEntry {
+  path: string;
+  host: string;
+}
+
+// Chromium counts microseconds since 1601-01-01, Firefox microseconds since 1970-01-01
+const CHROMIUM_EPOCH_OFFSET_MS = 11644473600000;
+
+// The copy is edited next to the original so it can be renamed over it on the same filesystem
+const COPY_SUFFIX = '.cleanmypc-edit';
+
+// Side files SQLite keeps next to a database; the write-ahead log and hot journal hold changes not yet in the main file
+const PENDING_CHANGE_SUFFIXES = ['-wal', '-journal'];
+const SIDE_FILE_SUFFIXES = [...PENDING_CHANGE_SUFFIXES, '-shm'];
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+/**
+ * Clears history older than browserData.historyDays, cookies and per-site
+ * storage of every site not in browserData.keepDomains. The databases are
+ * never edited in place: each one is copied with its write-ahead log,
+ * checked, edited and checked again, and only swapped in when the browser
+ * is still closed. Profiles the browser is using are skipped.
+ */
+export class BrowserDataCleaner extends BrowserProfileCleaner {
+  static meta: TaskMetadata = {
+    id: 'browserData',
+    title: 'Browser history and cookies',
+    description: 'Clear old browser history, and cookies and site data of sites not in browserData.keepDomains',
+    icon: '🍪',
+    defaultEnabled: false
+  };
+
+  private sqlite = new SqliteShell();
+  private keepDomains: string[] = [];
+
+  async clean(): Promise<CleanupResult> {
+    this.clearErrors();
+    this.clearSkipped();
+
+    const settings = this.config.browserData;
+    const browserData: BrowserDataResult[] = [];
+    let filesDeleted = 0;
+    let spaceSaved = 0;
+
+    this.keepDomains = this.readKeepDomains();
+
+    let editDatabases = settings.historyDays > 0 || settings.cookies;
+    if (editDatabases && this.context.plan) {
+      this.errors.push('History and cookies are edited in place and cannot be part of a scan plan; only site data is planned');
+      editDatabases = false;
+    } else if (editDatabases && !(await SqliteShell.isAvailable())) {
+      this.errors.push('sqlite3 was not found on the PATH, history and cookies are left untouched');
+      editDatabases = false;
+    }
+
+    // Safari keeps its history and cookies behind macOS privacy protection
+    for (const browser of this.getEnabledBrowsers().filter(browser => browser.engine !== 'safari')) {
+      const selection = await this.selectProfiles(browser);
+      if (!selection) continue;
+
+      for (const profile of selection.selected) {
+        const result: BrowserDataResult = {
+          browser: browser.id,
+          profile: profile.directory,
+          name: profile.name,
+          historyDeleted: 0,
+          cookiesDeleted: 0,
+          sitesCleared: 0,
+          spaceSaved: 0,
+          skippedReason: selection.inUse.get(profile)
+        };
+        browserData.push(result);
+
+        if (result.skippedReason) continue;
+
+        if (editDatabases && settings.historyDays > 0) {
+          const history = await this.clearHistory(browser, profile, settings.historyDays);
+          result.historyDeleted = history.removed;
+          result.spaceSaved += history.spaceSaved;
+        }
+
+        if (editDatabases && settings.cookies) {
+          const cookies = await this.clearCookies(browser, profile);
+          result.cookiesDeleted = cookies.removed;
+          result.spaceSaved += cookies.spaceSaved;
+        }
+
+        if (settings.siteData) {
+          const siteData = await this.clearSiteData(browser, profile);
+          result.sitesCleared = siteData.sites;
+          result.spaceSaved += siteData.spaceSaved;
+          filesDeleted += siteData.filesDeleted;
+        }
+
+        spaceSaved += result.spaceSaved;
+      }
+    }
+
+    return {
+      task: 'browserData',
+      filesDeleted,
+      spaceSaved,
+      browserData,
+      skipped: this.getSkipped(),
+      refusals: this.getRefusals(),
+      errors: this.getErrors()
+    };
+  }
+
+  private readKeepDomains(): string[] {
+    const domains: string[] = [];
+
+    for (const entry of this.config.browserData.keepDomains || []) {
+      const domain = entry.trim().toLowerCase().replace(/^\./, '');
+
+      if (DOMAIN_PATTERN.test(domain)) {
+        domains.push(domain);
+      } else {
+        this.errors.push(`Ignoring browserData.keepDomains entry "${entry}": not a domain name`);
+      }
+    }
+
+    return domains;
+  }
+
+  // Subdomains of a kept domain are kept too
+  private isKeptHost(host: string): boolean {
+    const normalized = host.toLowerCase().replace(/^\./, '');
+    return this.keepDomains.some(domain => normalized === domain || normalized.endsWith(`.${domain}`));
+  }
+
+  private getKeptHostSql(column: string): string {
+    if (this.keepDomains.length === 0) {
+      return '0';
+    }
+
+    return this.keepDomains.map(domain => {
+      const suffix = `.${domain}`;
+      return `(lower(${column}) IN (${SqliteShell.quote(domain)}, ${SqliteShell.quote(suffix)}) OR substr(lower(${column}), -${suffix.length}) = ${SqliteShell.quote(suffix)})`;
+    }).join(' OR ');
+  }
+
+  private async clearHistory(browser: BrowserDescriptor, profile: BrowserProfile, days: number): Promise<{ removed: number; spaceSaved: number }> {
+    const cutoffMs = Date.now() - days * 24 * 60 * 60 * 1000;
+
+    if (browser.engine === 'chromium') {
+      const cutoff = (cutoffMs + CHROMIUM_EPOCH_OFFSET_MS) * 1000;
+
+      return this.editDatabase(browser, profile, path.join(profile.path, 'History'), 'history', tables => {
+        this.requireTables(tables, ['visits', 'urls']);
+
+        // URLs keep their own visit count and last visit, which have to follow the remaining visits
+        const statements = [
+          `CREATE TEMP TABLE affected_urls AS SELECT DISTINCT url FROM visits WHERE visit_time < ${cutoff};`,
+          `DELETE FROM visits WHERE visit_time < ${cutoff};`,
+          'UPDATE urls SET visit_count = (SELECT COUNT(*) FROM visits WHERE visits.url = urls.id), ' +
+            'last_visit_time = COALESCE((SELECT MAX(visit_time) FROM visits WHERE visits.url = urls.id), 0) ' +
+            'WHERE id IN (SELECT url FROM affected_urls);',
+          'DELETE FROM urls WHERE id IN (SELECT url FROM affected_urls) AND visit_count = 0;'
+        ];
+
+        if (tables.has('visit_source')) {
+          statements.push('DELETE FROM visit_source WHERE id NOT IN (SELECT id FROM visits);');
+        }
+        if (tables.has('keyword_search_terms')) {
+          statements.push('DELETE FROM keyword_search_terms WHERE url_id NOT IN (SELECT id FROM urls);');
+        }
+
+        return {
+          countSql: `SELECT COUNT(*) FROM visits WHERE visit_time < ${cutoff};`,
+          editSql: statements.join(' ')
+        };
+      });
+    }
+
+    const cutoff = cutoffMs * 1000;
+
+    return this.editDatabase(browser, profile, path.join(profile.path, 'places.sqlite'), 'history', tables => {
+      this.requireTables(tables, ['moz_historyvisits', 'moz_places']);
+
+      // Places still referenced by bookmarks or keywords (foreign_count) stay, only their visits go
+      const statements = [
+        `CREATE TEMP TABLE affected_places AS SELECT DISTINCT place_id FROM moz_historyvisits WHERE visit_date < ${cutoff};`,
+        `DELETE FROM moz_historyvisits WHERE visit_date < ${cutoff};`,
+        'UPDATE moz_places SET visit_count = (SELECT COUNT(*) FROM moz_historyvisits WHERE moz_historyvisits.place_id = moz_places.id), ' +
+          'last_visit_date = (SELECT MAX(visit_date) FROM moz_historyvisits WHERE moz_historyvisits.place_id = moz_places.id) ' +
+          'WHERE id IN (SELECT place_id FROM affected_places);',
+        'DELETE FROM moz_places WHERE id IN (SELECT place_id FROM affected_places) AND visit_count = 0 AND foreign_count = 0;'
+      ];
+
+      for (const table of ['moz_annos', 'moz_inputhistory']) {
+        if (tables.has(table)) {
+          statements.push(`DELETE FROM ${table} WHERE place_id NOT IN (SELECT id FROM moz_places);`);
+        }
+      }
+
+      return {
+        countSql: `SELECT COUNT(*) FROM moz_historyvisits WHERE visit_date < ${cutoff};`,
+        editSql: statements.join(' ')
+      };
+    });
+  }
+
+  private async clearCookies(browser: BrowserDescriptor, profile: BrowserProfile): Promise<{ removed: number; spaceSaved: number }> {
+    let dbPath: string;
+    let table: string;
+    let column: string;
+
+    if (browser.engine === 'chromium') {
+      // Chromium 96 moved the cookie store into Network/
+      const networkCookies = path.join(profile.path, 'Network', 'Cookies');
+      dbPath = await this.pathExists(networkCookies) ? networkCookies : path.join(profile.path, 'Cookies');
+      table = 'cookies';
+      column = 'host_key';
+    } else {
+      dbPath = path.join(profile.path, 'cookies.sqlite');
+      table = 'moz_cookies';
+      column = 'host';
+    }
+
+    return this.editDatabase(browser, profile, dbPath, 'cookies', tables => {
+      this.requireTables(tables, [table]);
+      const condition = `NOT (${this.getKeptHostSql(column)})`;
+
+      return {
+        countSql: `SELECT COUNT(*) FROM ${table} WHERE ${condition};`,
+        editSql: `DELETE FROM ${table} WHERE ${condition};`
+      };
+    });
+  }
+
+  private requireTables(tables: Set<string>, required: string[]): void {
+    const missing = required.filter(table => !tables.has(table));
+
+    if (missing.length > 0) {
+      throw new Error(`unexpected database layout (no ${missing.join(', ')} table), left untouched`);
+    }
+  }
+
+  // Works on a copy and swaps it in only when the copy passes the integrity check after the edit
+  private async editDatabase(
+    browser: BrowserDescriptor,
+    profile: BrowserProfile,
+    dbPath: string,
+    label: string,
+    buildEdit: (tables: Set<string>) => DatabaseEdit
+  ): Promise<{ removed: number; spaceSaved: number }> {
+    if (!(await this.pathExists(dbPath))) {
+      return { removed: 0, spaceSaved: 0 };
+    }
+
+    // The edited copy sits next to the original so it can be moved over it; a dry run only counts,
+    // so it leaves the profile directory alone and works in a temporary directory
+    const copyDir = this.dryRun ? await fs.mkdtemp(path.join(os.tmpdir(), 'cleanmypc-')) : undefined;
+    const copyPath = copyDir ? path.join(copyDir, path.basename(dbPath)) : dbPath + COPY_SUFFIX;
+    const dbStats = await this.walker.stat(dbPath);
+
+    try {
+      // Measured before the copy takes up space of its own
+      if (!this.dryRun && dbStats) {
+        await this.context.space?.prepare(dbPath, dbStats);
+      }
+
+      await this.removeDatabase(copyPath);
+      for (const suffix of ['', ...PENDING_CHANGE_SUFFIXES]) {
+        if (await this.pathExists(dbPath + suffix)) {
+          await fs.copy(dbPath + suffix, copyPath + suffix);
+        }
+      }
+
+      const problem = await this.sqlite.checkIntegrity(copyPath);
+      if (problem) {
+        throw new Error(`fails the integrity check (${problem}), left untouched`);
+      }
+
+      const edit = buildEdit(await this.sqlite.getTables(copyPath));
+      const rows = await this.sqlite.query(copyPath, edit.countSql);
+      const removed = parseInt(rows[0]?.[0] || '0', 10) || 0;
+
+      if (this.dryRun || removed === 0) {
+        return { removed, spaceSaved: 0 };
+      }
+
+      await this.sqlite.query(copyPath, `BEGIN; ${edit.editSql} COMMIT; VACUUM;`);
+
+      const damage = await this.sqlite.checkIntegrity(copyPath);
+      if (damage) {
+        throw new Error(`the edited copy fails the integrity check (${damage}), left untouched`);
+      }
+
+      if (await this.isProfileInUse(browser, profile)) {
+        throw new Error(`${browser.name} was started in the meantime, left untouched`);
+      }
+
+      const sizeBefore = await this.getDatabaseSize(dbPath);
+      await this.replaceDatabase(dbPath, copyPath);
+
+      const spaceSaved = Math.max(0, sizeBefore - await this.getDatabaseSize(dbPath));
+      // The quarantined original keeps its space until it is purged
+      if (dbStats && !this.shouldQuarantine()) {
+        await this.context.space?.recordBytes(dbPath, dbStats, spaceSaved);
+      }
+
+      return { removed, spaceSaved };
+    } catch (error) {
+      this.errors.push(`Could not clear ${label} of ${browser.name} profile "${profile.name}" (${dbPath}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return { removed: 0, spaceSaved: 0 };
+    } finally {
+      await this.removeDatabase(copyPath).catch(() => undefined);
+      if (copyDir) {
+        await fs.remove(copyDir).catch(() => undefined);
+      }
+    }
+  }
+
+  // The original goes to quarantine when backupBeforeDelete is on, then the edited copy takes its place
+  private async replaceDatabase(dbPath: string, copyPath: string): Promise<void> {
+    for (const suffix of ['', ...SIDE_FILE_SUFFIXES]) {
+      const filePath = dbPath + suffix;
+      if (!(await this.pathExists(filePath))) continue;
+
+      if (suffix !== '-shm' && this.shouldQuarantine()) {
+        const size = await this.getFileSize(filePath);
+        // Restoring the original database has to overwrite the edited one that takes its place
+        const backup = await this.context.quarantine!.store(filePath, 'file', size, suffix === '');
+        await this.context.journal?.record(suffix === '' ? 'replace' : 'delete', filePath, { size, backup });
+      } else if (suffix !== '') {
+        // A log left next to the new file would be replayed into it
+        await fs.remove(filePath);
+      }
+    }
+
+    const size = await this.getFileSize(copyPath);
+    await fs.move(copyPath, dbPath, { overwrite: true });
+    await this.walker.forget(dbPath);
+
+    if (!this.shouldQuarantine()) {
+      await this.context.journal?.record('replace', dbPath, { size });
+    }
+  }
+
+  private async removeDatabase(dbPath: string): Promise<void> {
+    for (const suffix of ['', ...SIDE_FILE_SUFFIXES]) {
+      await fs.remove(dbPath + suffix);
+    }
+  }
+
+  private async getDatabaseSize(dbPath: string): Promise<number> {
+    let size = 0;
+
+    for (const suffix of ['', ...PENDING_CHANGE_SUFFIXES]) {
+      if (await this.pathExists(dbPath + suffix)) {
+        size += await this.getFileSize(dbPath + suffix);
+      }
+    }
+
+    return size;
+  }
+
+  private async clearSiteData(browser: BrowserDescriptor, profile: BrowserProfile): Promise<{ sites: number; filesDeleted: number; spaceSaved: number }> {
+    const sites = new Set<string>();
+    let filesDeleted = 0;
+    let spaceSaved = 0;
+
+    const entries = browser.engine === 'chromium'
+      ? await this.findChromiumSiteData(profile)
+      : await this.findFirefoxSiteData(profile);
+
+    for (const entry of entries) {
+      if (this.isKeptHost(entry.host)) continue;
+
+      const result = await this.deleteDirectory(entry.path, profile.path);
+      if (result.deleted) {
+        sites.add(entry.host);
+        filesDeleted++;
+        spaceSaved += result.size;
+      }
+    }
+
+    // Chromium keeps Local Storage of all sites in one LevelDB database, which cannot be split by site
+    const localStorage = path.join(profile.path, 'Local Storage', 'leveldb');
+    if (browser.engine === 'chromium' && await this.pathExists(localStorage)) {
+      this.skipFile(localStorage, 'Local Storage of all sites is one database and cannot be cleared per site');
+    }
+
+    return { sites: sites.size, filesDeleted, spaceSaved };
+  }
+
+  private async findChromiumSiteData(profile: BrowserProfile): Promise<SiteDataEntry[]> {
+    const entries: SiteDataEntry[] = [];
+
+    // IndexedDB/https_www.example.com_0.indexeddb.leveldb (and .blob)
+    const indexedDbDir = path.join(profile.path, 'IndexedDB');
+    for (const name of await this.readDirectoryNames(indexedDbDir)) {
+      const match = name.match(/^https?_(.+)_\d+\.indexeddb\.(leveldb|blob)$/);
+      if (match) {
+        entries.push({ path: path.join(indexedDbDir, name), host: match[1] });
+      }
+    }
+
+    // Service Worker/CacheStorage/<hash> directories name their origin in index.txt
+    const cacheStorageDir = path.join(profile.path, 'Service Worker', 'CacheStorage');
+    for (const name of await this.readDirectoryNames(cacheStorageDir)) {
+      const host = await this.readCacheStorageHost(path.join(cacheStorageDir, name, 'index.txt'));
+      if (host) {
+        entries.push({ path: path.join(cacheStorageDir, name), host });
+      }
+    }
+
+    return entries;
+  }
+
+  private async readCacheStorageHost(indexPath: string): Promise<string | null> {
+    try {
+      const content = (await fs.readFile(indexPath)).toString('latin1');
+      return content.match(/https?:\/\/([a-z0-9.-]+)/i)?.[1] || null;
+    } catch {
+      return null;
+    }
+  }
+
+  // storage/default/https+++www.example.com (IndexedDB, Local Storage and Cache API of one origin);
+  // extensions and internal pages use other schemes and are left alone
+  private async findFirefoxSiteData(profile: BrowserProfile): Promise<SiteDataEntry[]> {
+    const storageDir = path.join(profile.path, 'storage', 'default');
+    const entries: SiteDataEntry[] = [];
+
+    for (const name of await this.readDirectoryNames(storageDir)) {
+      const match = name.match(/^https?\+\+\+([^+^]+)/);
+      if (match) {
+        entries.push({ path: path.join(storageDir, name), host: match[1] });
+      }
+    }
+
+    return entries;
+  }
+
+  private async readDirectoryNames(dirPath: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch {
+      return [];
+    }
+  }
+}
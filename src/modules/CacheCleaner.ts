@@ -1,11 +1,22 @@
 import * as path from 'path';
-import { BaseCleaner } from './BaseCleaner';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
 import { CleanupResult } from '../CleanupManager';
 import { OSDetector } from '../utils/OSDetector';
+import { PackageCacheCleaner } from './PackageCacheCleaner';
+import { ThumbnailCleaner } from './ThumbnailCleaner';
 
 export class CacheCleaner extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'cache',
+    title: 'Cache files',
+    description: 'Clean cache files',
+    icon: '💾',
+    defaultEnabled: true
+  };
+
   async clean(): Promise<CleanupResult> {
     this.clearErrors();
+    this.clearSkipped();
     
     let filesDeleted = 0;
     let spaceSaved = 0;
@@ -24,6 +35,8 @@ export class CacheCleaner extends BaseCleaner {
       task: 'cache',
       filesDeleted,
       spaceSaved,
+      skipped: this.getSkipped(),
+      refusals: this.getRefusals(),
       errors: this.getErrors()
     };
   }
@@ -46,11 +59,8 @@ export class CacheCleaner extends BaseCleaner {
         path.join(localAppData, 'Microsoft', 'Windows', 'INetCache'),
         path.join(localAppData, 'IconCache.db'),
         
-        // Application caches
-        path.join(localAppData, 'npm-cache'),
-        path.join(appData, 'npm-cache'),
+        // Application caches (npm, pip and other package managers are pruned by PackageCacheCleaner)
         path.join(localAppData, 'yarn', 'cache'),
-        path.join(localAppData, 'pip', 'cache'),
         path.join(localAppData, 'composer', 'cache'),
         
         // VS Code caches
@@ -68,10 +78,8 @@ export class CacheCleaner extends BaseCleaner {
         '/Library/Caches',
         '/System/Library/Caches',
         
-        // Application caches
-        path.join(homeDir, '.npm', '_cacache'),
+        // Application caches (npm, pip and other package managers are pruned by PackageCacheCleaner)
         path.join(homeDir, '.yarn', 'cache'),
-        path.join(homeDir, '.cache', 'pip'),
         path.join(homeDir, '.composer', 'cache'),
         
         // Development tool caches
@@ -86,10 +94,8 @@ export class CacheCleaner extends BaseCleaner {
         '/var/cache',
         '/tmp',
         
-        // Application caches
-        path.join(homeDir, '.npm', '_cacache'),
+        // Application caches (npm, pip and other package managers are pruned by PackageCacheCleaner)
         path.join(homeDir, '.yarn', 'cache'),
-        path.join(homeDir, '.cache', 'pip'),
         path.join(homeDir, '.composer', 'cache'),
         
         // Development tool caches
@@ -107,16 +113,26 @@ export class CacheCleaner extends BaseCleaner {
   private async cleanCachePath(cachePath: string): Promise<{ filesDeleted: number; spaceSaved: number }> {
     let filesDeleted = 0;
     let spaceSaved = 0;
+    
+    // Deleting single files inside these would leave their indexes pointing at missing content,
+    // and thumbnails are only removed once their source file changed
+    const managedExcludes = [...PackageCacheCleaner.getManagedExcludes(), ...ThumbnailCleaner.getManagedExcludes()];
 
     try {
       // Check if this is a file pattern or directory
       if (cachePath.includes('*')) {
         // It's a file pattern
-        const files = await this.findFiles([cachePath]);
+        const files = await this.findFiles([cachePath], managedExcludes);
         
         for (const file of files) {
-          if (this.isFileOldEnough(file, this.config.maxFileAge)) {
-            const result = await this.deleteFile(file);
+          const skipReason = await this.getSkipReason(file);
+          if (skipReason) {
+            this.skipFile(file, skipReason);
+            continue;
+          }
+          
+          if (await this.isFileOldEnough(file, this.config.maxFileAge)) {
+            const result = await this.deleteFile(file, cachePath);
             if (result.deleted) {
               filesDeleted++;
               spaceSaved += result.size;
@@ -135,11 +151,17 @@ export class CacheCleaner extends BaseCleaner {
             path.join(cachePath, '**', '*.bak')
           ];
 
-          const files = await this.findFiles(cacheFilePatterns);
+          const files = await this.findFiles(cacheFilePatterns, managedExcludes);
           
           for (const file of files) {
-            if (this.isFileOldEnough(file, this.config.maxFileAge)) {
-              const result = await this.deleteFile(file);
+            const skipReason = await this.getSkipReason(file);
+            if (skipReason) {
+              this.skipFile(file, skipReason);
+              continue;
+            }
+            
+            if (await this.isFileOldEnough(file, this.config.maxFileAge)) {
+              const result = await this.deleteFile(file, cachePath);
               if (result.deleted) {
                 filesDeleted++;
                 spaceSaved += result.size;
@@ -148,10 +170,16 @@ export class CacheCleaner extends BaseCleaner {
           }
 
           // Clean empty cache directories
-          const emptyDirs = await this.findDirectories([path.join(cachePath, '**')]);
+          const emptyDirs = await this.findDirectories([path.join(cachePath, '**')], managedExcludes);
           for (const dir of emptyDirs) {
             if (await this.isDirectoryEmpty(dir)) {
-              const result = await this.deleteDirectory(dir);
+              const skipReason = await this.getSkipReason(dir);
+              if (skipReason) {
+                this.skipFile(dir, skipReason);
+                continue;
+              }
+              
+              const result = await this.deleteDirectory(dir, cachePath);
               if (result.deleted) {
                 filesDeleted++;
               }
@@ -166,13 +194,4 @@ export class CacheCleaner extends BaseCleaner {
 
     return { filesDeleted, spaceSaved };
   }
-
-  private async isDirectoryEmpty(dirPath: string): Promise<boolean> {
-    try {
-      const items = await require('fs-extra').readdir(dirPath);
-      return items.length === 0;
-    } catch {
-      return false;
-    }
-  }
 }
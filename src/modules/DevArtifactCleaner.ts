@@ -0,0 +1,263 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
+import { CleanupResult, DevProject } from '../CleanupManager';
+import { OSDetector } from '../utils/OSDetector';
+
+const execFileAsync = promisify(execFile);
+
+interface ProjectType {
+  name: string;
+  markers: string[];
+  artifacts: string[]; // directories next to the marker that the build regenerates
+}
+
+// Ordered so the first matching marker names the project
+const PROJECT_TYPES: ProjectType[] = [
+  { name: 'node', markers: ['package.json'], artifacts: ['node_modules', 'dist', 'build', '.next', '.nuxt', '.turbo', '.parcel-cache'] },
+  { name: 'rust', markers: ['Cargo.toml'], artifacts: ['target'] },
+  { name: 'maven', markers: ['pom.xml'], artifacts: ['target'] },
+  { name: 'gradle', markers: ['build.gradle', 'build.gradle.kts', 'settings.gradle', 'settings.gradle.kts'], artifacts: ['build', '.gradle'] },
+  { name: 'python', markers: ['pyproject.toml', 'setup.py', 'requirements.txt'], artifacts: ['.venv', 'venv', 'build', 'dist', '.pytest_cache', '.mypy_cache', '.tox'] },
+  { name: 'php', markers: ['composer.json'], artifacts: ['vendor'] }
+];
+
+// Found at any depth below a python project rather than only next to the marker
+const NESTED_ARTIFACTS = ['__pycache__'];
+
+const ALL_ARTIFACTS = new Set([...PROJECT_TYPES.flatMap(type => type.artifacts), ...NESTED_ARTIFACTS]);
+
+// Names people also give to hand-made folders; only git can show these were generated
+const AMBIGUOUS_ARTIFACTS = new Set(['build', 'dist', 'venv', '.venv']);
+
+export class DevArtifactCleaner extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'devArtifacts',
+    title: 'Developer artifacts',
+    description: 'Remove build outputs of stale projects',
+    icon: '🧱',
+    defaultEnabled: false
+  };
+
+  async clean(): Promise<CleanupResult> {
+    const found = await this.find();
+    return this.remove(found.devProjects || []);
+  }
+
+  // Lists stale projects and the size of their artifact directories without touching them
+  async find(): Promise<CleanupResult> {
+    this.clearErrors();
+
+    const projects: DevProject[] = [];
+    const workspaces = (this.config.devArtifacts.workspaces || []).map(workspace => OSDetector.expandHome(workspace));
+
+    for (const workspace of workspaces) {
+      if (await this.pathExists(workspace)) {
+        await this.findProjects(workspace, 0, projects);
+      } else if (this.debug) {
+        console.log(`DEBUG: Workspace ${workspace} does not exist`);
+      }
+    }
+
+    const staleProjects = projects
+      .filter(project => project.artifacts.length > 0 && this.isStale(project))
+      .sort((a, b) => b.size - a.size);
+
+    return {
+      task: 'devArtifacts',
+      filesDeleted: 0,
+      spaceSaved: 0,
+      devProjects: staleProjects,
+      errors: this.getErrors()
+    };
+  }
+
+  async remove(projects: DevProject[]): Promise<CleanupResult> {
+    this.clearErrors();
+
+    let filesDeleted = 0;
+    let spaceSaved = 0;
+
+    for (const project of projects) {
+      for (const artifact of project.artifacts) {
+        const result = await this.deleteDirectory(artifact.path, project.path);
+        if (result.deleted) {
+          filesDeleted++;
+          spaceSaved += result.size;
+        }
+      }
+    }
+
+    return {
+      task: 'devArtifacts',
+      filesDeleted,
+      spaceSaved,
+      devProjects: projects,
+      refusals: this.getRefusals(),
+      errors: this.getErrors()
+    };
+  }
+
+  private async findProjects(dirPath: string, depth: number, projects: DevProject[]): Promise<void> {
+    if (depth > (this.config.devArtifacts.maxDepth ?? 4)) {
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    const fileNames = new Set(entries.filter(entry => entry.isFile()).map(entry => entry.name));
+    const projectType = PROJECT_TYPES.find(type => type.markers.some(marker => fileNames.has(marker)));
+
+    if (projectType && !(await this.exclusions.isExcluded(dirPath, true))) {
+      try {
+        projects.push(await this.inspectProject(dirPath, projectType));
+      } catch (error) {
+        this.errors.push(`Failed to inspect project ${dirPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // Keep descending so monorepo packages are found as projects of their own
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || ALL_ARTIFACTS.has(entry.name)) {
+        continue;
+      }
+
+      const childPath = path.join(dirPath, entry.name);
+      if (!(await this.exclusions.isExcluded(childPath, true))) {
+        await this.findProjects(childPath, depth + 1, projects);
+      }
+    }
+  }
+
+  private async inspectProject(projectPath: string, projectType: ProjectType): Promise<DevProject> {
+    const candidates = projectType.artifacts.map(name => path.join(projectPath, name));
+
+    if (projectType.name === 'python') {
+      candidates.push(...(await this.findDirectories(NESTED_ARTIFACTS.map(name => path.join(projectPath, '**', name)), [
+        path.join(projectPath, '{.venv,venv,.tox}', '**')
+      ])));
+    }
+
+    const isGitRepository = await this.isInsideGitRepository(projectPath);
+    const artifacts: Array<{ path: string; size: number }> = [];
+
+    for (const candidate of [...new Set(candidates.map(candidate => path.resolve(candidate)))]) {
+      if (!(await this.isDirectory(candidate)) || await this.exclusions.isExcluded(candidate, true)) {
+        continue;
+      }
+
+      if (!isGitRepository && AMBIGUOUS_ARTIFACTS.has(path.basename(candidate))) {
+        if (this.debug) {
+          console.log(`DEBUG: Keeping ${candidate}, without git there is no telling whether it can be rebuilt`);
+        }
+        continue;
+      }
+
+      // A build/ or dist/ checked into the repository is source, not an artifact
+      if (isGitRepository && await this.hasTrackedFiles(projectPath, candidate)) {
+        if (this.debug) {
+          console.log(`DEBUG: Keeping ${candidate}, it contains files tracked by git`);
+        }
+        continue;
+      }
+
+      artifacts.push({ path: candidate, size: await this.getDirectorySize(candidate) });
+    }
+
+    const lastCommit = isGitRepository ? await this.getLastCommitDate(projectPath) : null;
+    const lastModified = await this.getNewestSourceMtime(projectPath, 0);
+
+    // Uncommitted edits are newer than the last commit, so the latest of both wins
+    const useCommit = lastCommit !== null && lastCommit >= lastModified;
+
+    return {
+      path: projectPath,
+      type: projectType.name,
+      lastActivity: new Date(useCommit ? lastCommit! : lastModified),
+      activitySource: useCommit ? 'git' : 'files',
+      artifacts,
+      size: artifacts.reduce((total, artifact) => total + artifact.size, 0)
+    };
+  }
+
+  private isStale(project: DevProject): boolean {
+    const staleAfter = (this.config.devArtifacts.staleDays ?? 90) * 24 * 60 * 60 * 1000;
+    return Date.now() - project.lastActivity.getTime() > staleAfter;
+  }
+
+  // Newest mtime of the project's own files, ignoring artifacts, VCS metadata and hidden folders
+  private async getNewestSourceMtime(dirPath: string, depth: number): Promise<number> {
+    let newest = 0;
+
+    // Deep trees rarely change the answer and make stat-ing every file slow
+    if (depth > 8) {
+      return newest;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return newest;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+
+      try {
+        if (entry.isFile()) {
+          newest = Math.max(newest, (await fs.stat(entryPath)).mtimeMs);
+        } else if (entry.isDirectory() && !entry.name.startsWith('.') && !ALL_ARTIFACTS.has(entry.name)) {
+          newest = Math.max(newest, await this.getNewestSourceMtime(entryPath, depth + 1));
+        }
+      } catch {
+        continue;
+      }
+    }
+
+    return newest;
+  }
+
+  private async isInsideGitRepository(projectPath: string): Promise<boolean> {
+    const output = await this.git(projectPath, ['rev-parse', '--is-inside-work-tree']);
+    return output === 'true';
+  }
+
+  // Last commit touching the project directory, which matters for packages inside a monorepo
+  private async getLastCommitDate(projectPath: string): Promise<number | null> {
+    const output = await this.git(projectPath, ['log', '-1', '--format=%ct', '--', '.']);
+    return output ? parseInt(output, 10) * 1000 : null;
+  }
+
+  private async hasTrackedFiles(projectPath: string, artifactPath: string): Promise<boolean> {
+    const output = await this.git(projectPath, ['ls-files', '--', path.relative(projectPath, artifactPath)]);
+    // Without git we cannot tell, so err on the side of keeping the directory
+    return output === null || output.length > 0;
+  }
+
+  // Returns trimmed stdout, or null when git is missing or the command fails
+  private async git(cwd: string, args: string[]): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync('git', args, { cwd, timeout: 10000, maxBuffer: 1024 * 1024 });
+      return stdout.trim();
+    } catch {
+      return null;
+    }
+  }
+
+  private async isDirectory(targetPath: string): Promise<boolean> {
+    try {
+      // lstat so a symlinked node_modules is not followed into its target
+      return (await fs.lstat(targetPath)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+}
@@ -1,9 +1,17 @@
-import * as fs from 'fs-extra';
 import * as path from 'path';
-import { BaseCleaner } from './BaseCleaner';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
 import { CleanupResult } from '../CleanupManager';
 
 export class DownloadsOrganizer extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'downloads',
+    title: 'Downloads',
+    description: 'Organize downloads folder',
+    icon: '📁',
+    defaultEnabled: true,
+    kind: 'organize'
+  };
+
   async clean(): Promise<CleanupResult> {
     return this.organize();
   }
@@ -82,9 +90,7 @@ export class DownloadsOrganizer extends BaseCleaner {
       // Create category folder if it doesn't exist
       const categoryPath = path.join(downloadsPath, category);
       
-      if (!this.dryRun) {
-        await fs.ensureDir(categoryPath);
-      }
+      await this.ensureDirectory(categoryPath);
 
       // Move file to category folder
       const newFilePath = path.join(categoryPath, fileName);
@@ -95,16 +101,10 @@ export class DownloadsOrganizer extends BaseCleaner {
         const uniqueFileName = await this.generateUniqueFileName(categoryPath, fileName);
         const uniqueFilePath = path.join(categoryPath, uniqueFileName);
         
-        if (!this.dryRun) {
-          await fs.move(filePath, uniqueFilePath);
-        }
-      } else {
-        if (!this.dryRun) {
-          await fs.move(filePath, newFilePath);
-        }
+        return await this.moveFile(filePath, uniqueFilePath);
       }
 
-      return true;
+      return await this.moveFile(filePath, newFilePath);
 
     } catch (error) {
       this.errors.push(`Failed to organize file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
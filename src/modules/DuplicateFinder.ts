@@ -0,0 +1,241 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
+import { CleanupResult, DuplicateFile, DuplicateSet } from '../CleanupManager';
+import { DuplicateAction } from '../utils/ConfigManager';
+import { OSDetector } from '../utils/OSDetector';
+import { FileTraverser } from '../utils/FileTraverser';
+
+// Enough to tell most different files of the same size apart without reading them fully
+const PARTIAL_HASH_BYTES = 64 * 1024;
+
+export class DuplicateFinder extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'duplicates',
+    title: 'Duplicate files',
+    description: 'Find duplicate files',
+    icon: '👯',
+    defaultEnabled: false,
+    kind: 'report'
+  };
+
+  async clean(): Promise<CleanupResult> {
+    const found = await this.find();
+    const action = this.config.duplicates.action;
+
+    if (!action || action === 'report') {
+      return found;
+    }
+
+    const result = await this.dedupe(found.duplicates || [], action);
+    return { ...result, errors: [...found.errors, ...result.errors] };
+  }
+
+  // Groups by size, then by a hash of the first 64 KB, then by a full hash, reading as little as possible
+  async find(): Promise<CleanupResult> {
+    this.clearErrors();
+
+    const bySize = new Map<number, DuplicateFile[]>();
+    const seen = new Set<string>();
+    const minSize = Math.max(this.config.duplicates.minSize || 0, 1);
+
+    for (const searchPath of this.getSearchPaths()) {
+      if (!(await this.pathExists(searchPath))) continue;
+
+      try {
+        await new FileTraverser(this.exclusions, this.walker).traverse(searchPath, (filePath, stats) => {
+          // Overlapping search folders reach the same file twice
+          if (stats.size < minSize || seen.has(filePath)) return;
+          seen.add(filePath);
+
+          const files = bySize.get(stats.size) || [];
+          files.push({ path: filePath, mtimeMs: stats.mtimeMs, ino: stats.ino, dev: stats.dev });
+          bySize.set(stats.size, files);
+        });
+      } catch (error) {
+        this.errors.push(`Error searching in ${searchPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const duplicates: DuplicateSet[] = [];
+
+    for (const [size, files] of bySize) {
+      if (this.countInodes(files) < 2) continue;
+
+      for (const partialGroup of await this.groupByHash(files, file => this.hashFile(file.path, PARTIAL_HASH_BYTES))) {
+        // For small files the partial hash already covered the whole content
+        const fullGroups = size <= PARTIAL_HASH_BYTES
+          ? [partialGroup]
+          : await this.groupByHash(partialGroup.files, file => this.hashFile(file.path));
+
+        for (const group of fullGroups) {
+          duplicates.push({
+            hash: group.hash,
+            size,
+            files: group.files,
+            wastedBytes: size * (this.countInodes(group.files) - 1)
+          });
+        }
+      }
+    }
+
+    duplicates.sort((a, b) => b.wastedBytes - a.wastedBytes);
+
+    return {
+      task: 'duplicates',
+      filesDeleted: 0,
+      spaceSaved: 0,
+      duplicates,
+      errors: this.getErrors()
+    };
+  }
+
+  // Keeps one copy of every set and deletes the others, or replaces them with hardlinks to it
+  async dedupe(sets: DuplicateSet[], action: DuplicateAction): Promise<CleanupResult> {
+    this.clearErrors();
+    this.clearSkipped();
+
+    let filesDeleted = 0;
+    let filesLinked = 0;
+    let spaceSaved = 0;
+
+    for (const set of sets) {
+      const keeper = this.chooseKeeper(set, action);
+
+      if (!(await this.isUnchanged(keeper, set.size))) {
+        this.errors.push(`Skipping duplicates of ${keeper.path}: the copy to keep changed since the scan`);
+        continue;
+      }
+
+      for (const file of set.files) {
+        // Already the same file on disk
+        if (file.ino === keeper.ino && file.dev === keeper.dev) continue;
+
+        if (!(await this.isUnchanged(file, set.size))) {
+          this.skipFile(file.path, 'modified since scan');
+          continue;
+        }
+
+        // No cleanup root: search folders like Downloads are refused as roots, the file itself is still checked
+        if (action === 'hardlink') {
+          if (file.dev !== keeper.dev) {
+            this.skipFile(file.path, 'on a different filesystem');
+            continue;
+          }
+
+          const result = await this.linkFile(file.path, keeper.path);
+          if (result.linked) {
+            filesLinked++;
+            spaceSaved += result.size;
+          }
+        } else {
+          const result = await this.deleteFile(file.path);
+          if (result.deleted) {
+            filesDeleted++;
+            spaceSaved += result.size;
+          }
+        }
+      }
+    }
+
+    return {
+      task: 'duplicates',
+      filesDeleted,
+      spaceSaved,
+      filesLinked: action === 'hardlink' ? filesLinked : undefined,
+      duplicates: sets,
+      skipped: this.getSkipped(),
+      refusals: this.getRefusals(),
+      errors: this.getErrors()
+    };
+  }
+
+  private getSearchPaths(): string[] {
+    const paths = this.config.duplicates.paths || [];
+
+    if (paths.length > 0) {
+      return paths.map(searchPath => OSDetector.expandHome(searchPath));
+    }
+
+    const homeDir = OSDetector.getHomeDirectory();
+    return ['Downloads', 'Pictures', 'Documents'].map(folder => path.join(homeDir, folder));
+  }
+
+  private chooseKeeper(set: DuplicateSet, action: DuplicateAction): DuplicateFile {
+    const byAge = [...set.files].sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+    switch (action) {
+      case 'keep-newest':
+        return byAge[byAge.length - 1];
+      case 'keep-by-path-priority': {
+        const priorities = (this.config.duplicates.pathPriority || []).map(priority => path.resolve(OSDetector.expandHome(priority)));
+        const rank = (file: DuplicateFile) => {
+          const index = priorities.findIndex(priority => file.path === priority || file.path.startsWith(priority + path.sep));
+          return index === -1 ? priorities.length : index;
+        };
+        // Oldest copy wins among equally ranked ones
+        return byAge.reduce((best, file) => rank(file) < rank(best) ? file : best);
+      }
+      case 'keep-oldest':
+      case 'hardlink':
+      default:
+        return byAge[0];
+    }
+  }
+
+  private async groupByHash(files: DuplicateFile[], hash: (file: DuplicateFile) => Promise<string>): Promise<Array<{ hash: string; files: DuplicateFile[] }>> {
+    const groups = new Map<string, DuplicateFile[]>();
+    // Hardlinks share their content, so each inode is only read once
+    const inodeHashes = new Map<string, string>();
+
+    for (const file of files) {
+      const inode = `${file.dev}:${file.ino}`;
+
+      try {
+        let digest = inodeHashes.get(inode);
+        if (!digest) {
+          digest = await hash(file);
+          inodeHashes.set(inode, digest);
+        }
+
+        const group = groups.get(digest) || [];
+        group.push(file);
+        groups.set(digest, group);
+      } catch (error) {
+        // Unreadable files cannot be compared
+        if (this.debug) {
+          console.log(`DEBUG: Could not hash ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    return [...groups.entries()]
+      .filter(([, group]) => this.countInodes(group) > 1)
+      .map(([digest, group]) => ({ hash: digest, files: group }));
+  }
+
+  private async hashFile(filePath: string, limit?: number): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    const stream = fs.createReadStream(filePath, limit ? { start: 0, end: limit - 1 } : {});
+
+    for await (const chunk of stream) {
+      hash.update(chunk as Buffer);
+    }
+
+    return hash.digest('hex');
+  }
+
+  private countInodes(files: DuplicateFile[]): number {
+    return new Set(files.map(file => `${file.dev}:${file.ino}`)).size;
+  }
+
+  private async isUnchanged(file: DuplicateFile, size: number): Promise<boolean> {
+    try {
+      const stats = await fs.lstat(file.path);
+      return stats.isFile() && stats.size === size && stats.mtimeMs === file.mtimeMs;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -1,10 +1,19 @@
-import * as fs from 'fs-extra';
 import * as path from 'path';
-import { BaseCleaner } from './BaseCleaner';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
 import { CleanupResult } from '../CleanupManager';
 import { OSDetector } from '../utils/OSDetector';
+import { FileTraverser } from '../utils/FileTraverser';
 
 export class LargeFileFinder extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'largeFiles',
+    title: 'Large files',
+    description: 'Find large files',
+    icon: '📊',
+    defaultEnabled: true,
+    kind: 'report'
+  };
+
   async clean(): Promise<CleanupResult> {
     return this.find();
   }
@@ -78,7 +87,14 @@ export class LargeFileFinder extends BaseCleaner {
     const largeFiles: Array<{ path: string; size: number }> = [];
 
     try {
-      await this.traverseDirectory(searchPath, largeFiles, 0);
+      await new FileTraverser(this.exclusions, this.walker).traverse(searchPath, (filePath, stats) => {
+        if (stats.size >= this.config.largeFileThreshold) {
+          largeFiles.push({
+            path: filePath,
+            size: stats.size
+          });
+        }
+      });
     } catch (error) {
       this.errors.push(`Error searching in ${searchPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -86,140 +102,6 @@ export class LargeFileFinder extends BaseCleaner {
     return largeFiles;
   }
 
-  private async traverseDirectory(
-    dirPath: string, 
-    largeFiles: Array<{ path: string; size: number }>, 
-    depth: number
-  ): Promise<void> {
-    // Limit recursion depth to avoid infinite loops and performance issues
-    if (depth > 10) {
-      return;
-    }
-
-    try {
-      const items = await fs.readdir(dirPath, { withFileTypes: true });
-
-      for (const item of items) {
-        const itemPath = path.join(dirPath, item.name);
-        
-        // Skip system and hidden files/directories
-        if (this.shouldSkipPath(itemPath, item.name)) {
-          continue;
-        }
-
-        try {
-          if (item.isFile()) {
-            const stats = await fs.stat(itemPath);
-            
-            if (stats.size >= this.config.largeFileThreshold) {
-              largeFiles.push({
-                path: itemPath,
-                size: stats.size
-              });
-            }
-          } else if (item.isDirectory()) {
-            // Recursively search subdirectories
-            await this.traverseDirectory(itemPath, largeFiles, depth + 1);
-          }
-        } catch (error) {
-          // Skip files/directories we can't access
-          continue;
-        }
-      }
-    } catch (error) {
-      // Skip directories we can't read
-      return;
-    }
-  }
-
-  private shouldSkipPath(fullPath: string, itemName: string): boolean {
-    const osType = OSDetector.getOS();
-    
-    // Skip hidden files and directories
-    if (itemName.startsWith('.')) {
-      return true;
-    }
-
-    // Skip system directories by name
-    const systemDirs = [
-      'System Volume Information',
-      '$RECYCLE.BIN',
-      'Windows',
-      'Program Files',
-      'Program Files (x86)',
-      'ProgramData',
-      'AppData',
-      'node_modules',
-      '.git',
-      '.svn',
-      '.hg'
-    ];
-
-    if (systemDirs.includes(itemName)) {
-      return true;
-    }
-
-    // OS-specific system paths to skip
-    if (osType === 'windows') {
-      const windowsSkipPaths = [
-        'C:\\Windows',
-        'C:\\Program Files',
-        'C:\\Program Files (x86)',
-        'C:\\ProgramData'
-      ];
-      
-      for (const skipPath of windowsSkipPaths) {
-        if (fullPath.toLowerCase().startsWith(skipPath.toLowerCase())) {
-          return true;
-        }
-      }
-    } else if (osType === 'macos') {
-      const macosSkipPaths = [
-        '/System',
-        '/Library/System',
-        '/usr/bin',
-        '/usr/sbin',
-        '/bin',
-        '/sbin'
-      ];
-      
-      for (const skipPath of macosSkipPaths) {
-        if (fullPath.startsWith(skipPath)) {
-          return true;
-        }
-      }
-    } else {
-      const linuxSkipPaths = [
-        '/bin',
-        '/sbin',
-        '/usr/bin',
-        '/usr/sbin',
-        '/lib',
-        '/lib64',
-        '/usr/lib',
-        '/usr/lib64',
-        '/sys',
-        '/proc',
-        '/dev'
-      ];
-      
-      for (const skipPath of linuxSkipPaths) {
-        if (fullPath.startsWith(skipPath)) {
-          return true;
-        }
-      }
-    }
-
-    // Check if path is in exclusions
-    for (const exclusion of this.config.exclusions) {
-      if (fullPath.includes(exclusion)) {
-        return true;
-      }
-    }
-
-    return false;
-  }
-
   // Method to actually delete large files (can be called separately)
   async deleteLargeFiles(filePaths: string[]): Promise<{ deletedCount: number; spaceSaved: number }> {
     let deletedCount = 0;
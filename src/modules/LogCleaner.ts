@@ -0,0 +1,173 @@
+import * as path from 'path';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
+import { CleanupResult } from '../CleanupManager';
+import { WalkEntry } from '../utils/FileWalker';
+import { formatBytes } from '../utils/formatBytes';
+
+// syslog.1, syslog.2.gz, messages-20261001, messages-20261001.xz
+const ROTATED_LOG = /^(.+?)(?:\.[1-9]\d{0,2}|-\d{8})(?:\.(?:gz|xz|bz2|zst|lz4))?$/;
+// Any numeric suffix, only trusted when the live log next to it exists: app.log-2, app.log.0001
+const NUMBERED_LOG = /^(.+?)[.-](\d+)(?:\.(?:gz|xz|bz2|zst|lz4))?$/;
+// dpkg.log.gz, Xorg.0.log.old
+const ARCHIVED_LOG = /^(.+?)\.(?:gz|xz|bz2|zst|lz4|old)$/;
+
+const JOURNAL_DIR = 'journal';
+
+/**
+ * Removes rotated and archived system logs. Logs that are still being
+ * written (no rotation suffix, or held open by a process) are never
+ * touched. The newest rotations of every log family are kept, and archived
+ * systemd journals are removed oldest first until the journal directory
+ * fits its size budget.
+ */
+export class LogCleaner extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'logs',
+    title: 'System logs',
+    description: 'Remove rotated and archived system logs',
+    icon: '📜',
+    defaultEnabled: false,
+    platforms: ['linux']
+  };
+
+  async clean(): Promise<CleanupResult> {
+    this.clearErrors();
+    this.clearSkipped();
+
+    let filesDeleted = 0;
+    let spaceSaved = 0;
+
+    for (const logPath of this.config.logs.paths || []) {
+      if (!(await this.pathExists(logPath))) continue;
+
+      try {
+        for (const result of [await this.cleanRotatedLogs(logPath), await this.cleanJournal(logPath)]) {
+          filesDeleted += result.filesDeleted;
+          spaceSaved += result.spaceSaved;
+        }
+      } catch (error) {
+        this.errors.push(`Error cleaning logs in ${logPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return {
+      task: 'logs',
+      filesDeleted,
+      spaceSaved,
+      skipped: this.getSkipped(),
+      refusals: this.getRefusals(),
+      errors: this.getErrors()
+    };
+  }
+
+  // Keeps the newest keepRotations files of every family, e.g. syslog.1 and syslog.2.gz for syslog
+  private async cleanRotatedLogs(logPath: string): Promise<{ filesDeleted: number; spaceSaved: number }> {
+    const journalPath = path.join(logPath, JOURNAL_DIR);
+    const keepRotations = Math.max(this.config.logs.keepRotations || 0, 0);
+    const families = new Map<string, WalkEntry[]>();
+
+    const entries = (await this.walker.walk(logPath, { descend: entry => entry.path !== journalPath }))
+      .filter(entry => entry.stats.isFile());
+    const files = new Set(entries.map(entry => entry.path));
+
+    for (const entry of entries) {
+      const family = LogCleaner.getLogFamily(entry.name, name => files.has(path.join(path.dirname(entry.path), name)));
+      if (!family) continue;
+
+      const key = path.join(path.dirname(entry.path), family);
+      families.set(key, [...(families.get(key) || []), entry]);
+    }
+
+    let filesDeleted = 0;
+    let spaceSaved = 0;
+
+    for (const rotations of families.values()) {
+      const expired = rotations
+        .sort((a, b) => b.stats.mtimeMs - a.stats.mtimeMs)
+        .slice(keepRotations);
+
+      for (const entry of expired) {
+        const result = await this.deleteLog(entry.path, logPath);
+        if (result.deleted) {
+          filesDeleted++;
+          spaceSaved += result.size;
+        }
+      }
+    }
+
+    return { filesDeleted, spaceSaved };
+  }
+
+  // Archived journals (system@....journal) and ones left behind by an unclean shutdown (*.journal~)
+  private async cleanJournal(logPath: string): Promise<{ filesDeleted: number; spaceSaved: number }> {
+    const journalPath = path.join(logPath, JOURNAL_DIR);
+    const maxSize = this.config.logs.journalMaxSize || 0;
+
+    let filesDeleted = 0;
+    let spaceSaved = 0;
+
+    if (maxSize <= 0 || !(await this.pathExists(journalPath))) {
+      return { filesDeleted, spaceSaved };
+    }
+
+    const journals = (await this.walker.walk(journalPath))
+      .filter(entry => entry.stats.isFile() && /\.journal~?$/.test(entry.name));
+    let totalSize = journals.reduce((total, entry) => total + entry.stats.size, 0);
+
+    // The active system.journal and user-*.journal files have neither marker
+    const archived = journals
+      .filter(entry => entry.name.includes('@') || entry.name.endsWith('~'))
+      .sort((a, b) => a.stats.mtimeMs - b.stats.mtimeMs);
+
+    for (const entry of archived) {
+      if (totalSize <= maxSize) break;
+
+      const result = await this.deleteLog(entry.path, logPath);
+      if (result.deleted) {
+        filesDeleted++;
+        spaceSaved += result.size;
+        totalSize -= result.size;
+      }
+    }
+
+    if (totalSize > maxSize) {
+      this.errors.push(`Journal in ${journalPath} is still ${formatBytes(totalSize)}, over its ${formatBytes(maxSize)} budget, after removing archived files`);
+    }
+
+    return { filesDeleted, spaceSaved };
+  }
+
+  private async deleteLog(filePath: string, logPath: string): Promise<{ deleted: boolean; size: number }> {
+    // A daemon may still be writing to a log that was just rotated
+    const skipReason = await this.getSkipReason(filePath);
+    if (skipReason) {
+      this.skipFile(filePath, skipReason);
+      return { deleted: false, size: 0 };
+    }
+
+    if (await this.exclusions.isExcluded(filePath, false)) {
+      return { deleted: false, size: 0 };
+    }
+
+    const result = await this.deleteFile(filePath, logPath);
+
+    if (this.debug && result.deleted) {
+      console.log(`DEBUG: ${this.dryRun ? 'Would delete' : 'Deleted'} log: ${filePath} (${result.size} bytes)`);
+    }
+
+    return result;
+  }
+
+  // Name of the live log a rotated or archived file belongs to, null for live logs and
+  // numbered files of other programs, such as MySQL binlogs (mysql-bin.000123)
+  static getLogFamily(fileName: string, hasLiveLog: (family: string) => boolean): string | null {
+    const numbered = fileName.match(NUMBERED_LOG);
+    if (numbered && hasLiveLog(numbered[1])) return numbered[1];
+
+    const rotated = fileName.match(ROTATED_LOG);
+    if (rotated) return rotated[1];
+
+    const archived = fileName.match(ARCHIVED_LOG);
+    return archived ? archived[1] : null;
+  }
+}
@@ -0,0 +1,100 @@
+import * as path from 'path';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
+import { CleanupResult, PackageCacheResult } from '../CleanupManager';
+import { EvictFunction, PackageCachePruner } from './packageCaches/PackageCachePruner';
+import { NpmCachePruner } from './packageCaches/NpmCachePruner';
+import { PipCachePruner } from './packageCaches/PipCachePruner';
+import { CargoCachePruner } from './packageCaches/CargoCachePruner';
+import { GoModCachePruner } from './packageCaches/GoModCachePruner';
+import { MavenCachePruner } from './packageCaches/MavenCachePruner';
+import { GradleCachePruner } from './packageCaches/GradleCachePruner';
+
+export class PackageCacheCleaner extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'packageCaches',
+    title: 'Package caches',
+    description: 'Prune unused package manager caches',
+    icon: '📦',
+    defaultEnabled: true
+  };
+
+  static createPruners(dryRun: boolean = false, debug: boolean = false): PackageCachePruner[] {
+    return [
+      new NpmCachePruner(dryRun, debug),
+      new PipCachePruner(dryRun, debug),
+      new CargoCachePruner(dryRun, debug),
+      new GoModCachePruner(dryRun, debug),
+      new MavenCachePruner(dryRun, debug),
+      new GradleCachePruner(dryRun, debug)
+    ];
+  }
+
+  // Caches with a layout only their pruner understands; generic cleaners must not delete inside them
+  static getManagedRoots(): string[] {
+    return PackageCacheCleaner.createPruners().flatMap(pruner => pruner.getCacheRoots()).filter(root => root);
+  }
+
+  // Ignore patterns that keep findFiles/findDirectories out of the managed caches
+  static getManagedExcludes(): string[] {
+    return PackageCacheCleaner.getManagedRoots().flatMap(root => [root, path.join(root, '**')]);
+  }
+
+  async clean(): Promise<CleanupResult> {
+    this.clearErrors();
+    this.clearSkipped();
+
+    let filesDeleted = 0;
+    let spaceSaved = 0;
+    const packageCaches: PackageCacheResult[] = [];
+
+    const { maxAgeDays = 90, ecosystems } = this.config.packageCaches;
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    const pruners = PackageCacheCleaner.createPruners(this.dryRun, this.debug)
+      .filter(pruner => !ecosystems || ecosystems.includes(pruner.ecosystem));
+
+    for (const pruner of pruners) {
+      for (const root of pruner.getCacheRoots().filter(root => root)) {
+        if (!(await this.pathExists(root))) continue;
+
+        try {
+          const result = await pruner.prune(root, cutoff, this.createEvictFunction(root));
+
+          packageCaches.push({ ecosystem: pruner.ecosystem, path: root, ...result });
+          filesDeleted += result.itemsEvicted;
+          spaceSaved += result.spaceSaved;
+        } catch (error) {
+          this.errors.push(`Error pruning ${pruner.ecosystem} cache ${root}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    return {
+      task: 'packageCaches',
+      filesDeleted,
+      spaceSaved,
+      packageCaches,
+      skipped: this.getSkipped(),
+      refusals: this.getRefusals(),
+      errors: this.getErrors()
+    };
+  }
+
+  private createEvictFunction(root: string): EvictFunction {
+    return async (targetPath, type) => {
+      // A running build may hold cache files open
+      const skipReason = await this.getSkipReason(targetPath);
+      if (skipReason) {
+        this.skipFile(targetPath, skipReason);
+        return { deleted: false, size: 0 };
+      }
+
+      if (await this.exclusions.isExcluded(targetPath, type === 'directory')) {
+        return { deleted: false, size: 0 };
+      }
+
+      return type === 'directory'
+        ? this.deleteDirectory(targetPath, root)
+        : this.deleteFile(targetPath, root);
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs-extra';
+import { BaseCleaner, CleanerContext } from './BaseCleaner';
+import { CleanupResult } from '../CleanupManager';
+import { CleanupConfig } from '../utils/ConfigManager';
+import { CleanupPlanFile, PlanEntry } from '../utils/CleanupPlan';
+
+export class PlanApplier extends BaseCleaner {
+  private currentEntry?: PlanEntry;
+
+  constructor(
+    private plan: CleanupPlanFile,
+    config: CleanupConfig,
+    dryRun: boolean = false,
+    debug: boolean = false,
+    context: CleanerContext = {}
+  ) {
+    super(config, dryRun, debug, context);
+  }
+
+  async clean(): Promise<CleanupResult> {
+    return this.apply();
+  }
+
+  // Deletes exactly the planned entries, skipping anything that changed since the scan
+  async apply(): Promise<CleanupResult> {
+    this.clearErrors();
+
+    let filesDeleted = 0;
+    let spaceSaved = 0;
+
+    for (const entry of this.plan.entries) {
+      const changed = await this.getChangeReason(entry);
+
+      if (changed) {
+        this.errors.push(`Skipped ${entry.path}: ${changed}`);
+        continue;
+      }
+
+      if (entry.quarantine && !this.context.quarantine) {
+        this.errors.push(`Skipped ${entry.path}: planned for quarantine, but quarantine is not available`);
+        continue;
+      }
+
+      this.currentEntry = entry;
+      const result = entry.type === 'directory'
+        ? await this.deleteDirectory(entry.path, entry.root)
+        : await this.deleteFile(entry.path, entry.root);
+      this.currentEntry = undefined;
+
+      if (result.deleted) {
+        filesDeleted++;
+        spaceSaved += result.size;
+
+        if (this.debug) {
+          console.log(`DEBUG: ${this.dryRun ? 'Would delete' : 'Deleted'} ${entry.path} (${entry.task}, ${entry.rule})`);
+        }
+      }
+    }
+
+    return {
+      task: 'plan',
+      filesDeleted,
+      spaceSaved,
+      refusals: this.getRefusals(),
+      errors: this.getErrors()
+    };
+  }
+
+  // Entries of quarantine rules keep their backup, whatever backupBeforeDelete says now
+  protected requiresQuarantine(): boolean {
+    return this.currentEntry?.quarantine === true;
+  }
+
+  private async getChangeReason(entry: PlanEntry): Promise<string | null> {
+    let stats: fs.Stats;
+
+    try {
+      stats = await fs.lstat(entry.path);
+    } catch {
+      return 'no longer exists';
+    }
+
+    if ((entry.type === 'directory') !== stats.isDirectory()) {
+      return `is no longer a ${entry.type}`;
+    }
+
+    if (await this.exclusions.isExcluded(entry.path, stats.isDirectory())) {
+      return 'excluded since scan';
+    }
+
+    if (stats.mtimeMs !== entry.mtimeMs) {
+      return 'modified since scan';
+    }
+
+    const size = entry.type === 'directory'
+      ? await this.getDirectorySize(entry.path)
+      : await this.getFileSize(entry.path);
+
+    if (size !== entry.size) {
+      return `size changed since scan (${entry.size} -> ${size} bytes)`;
+    }
+
+    return null;
+  }
+}
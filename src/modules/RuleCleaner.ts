@@ -0,0 +1,251 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
+import { CleanupResult, RuleResult } from '../CleanupManager';
+import { CleanupRule } from '../utils/ConfigManager';
+import { OSDetector } from '../utils/OSDetector';
+
+const RULE_ACTIONS = ['delete', 'quarantine', 'move-to', 'archive'];
+
+export class RuleCleaner extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'rules',
+    title: 'Custom rules',
+    description: 'Run custom cleanup rules',
+    icon: '📋',
+    defaultEnabled: true
+  };
+
+  private currentRule?: CleanupRule;
+  // A file matched by several rules is only handled by the first one
+  private handled = new Set<string>();
+
+  async clean(): Promise<CleanupResult> {
+    this.clearErrors();
+    this.clearSkipped();
+    this.handled.clear();
+
+    let filesDeleted = 0;
+    let filesOrganized = 0;
+    let spaceSaved = 0;
+    const rules: RuleResult[] = [];
+
+    for (const rule of this.config.rules || []) {
+      const validationError = await this.validateRule(rule);
+      if (validationError) {
+        this.errors.push(`Skipping rule ${rule.name || '(unnamed)'}: ${validationError}`);
+        continue;
+      }
+
+      // Plans only hold deletions, so moving and archiving rules are left to real runs
+      if (this.context.plan && (rule.action === 'move-to' || rule.action === 'archive')) {
+        if (this.debug) {
+          console.log(`DEBUG: Rule ${rule.name} (${rule.action}) does not take part in scans`);
+        }
+        continue;
+      }
+
+      const result = await this.runRule(rule);
+      rules.push(result);
+      spaceSaved += result.spaceSaved;
+
+      if (rule.action === 'move-to') {
+        filesOrganized += result.filesProcessed;
+      } else {
+        filesDeleted += result.filesProcessed;
+      }
+    }
+
+    return {
+      task: 'rules',
+      filesDeleted,
+      spaceSaved,
+      filesOrganized: filesOrganized > 0 ? filesOrganized : undefined,
+      rules,
+      skipped: this.getSkipped(),
+      refusals: this.getRefusals(),
+      errors: this.getErrors()
+    };
+  }
+
+  // The quarantine action keeps a backup even when backupBeforeDelete is off, in scans too
+  protected requiresQuarantine(): boolean {
+    return this.currentRule?.action === 'quarantine';
+  }
+
+  private async validateRule(rule: CleanupRule): Promise<string | null> {
+    if (!rule.name) return 'rules need a name';
+    if (!Array.isArray(rule.paths) || rule.paths.length === 0) return 'no paths configured';
+    if (!RULE_ACTIONS.includes(rule.action)) return `unknown action "${rule.action}" (expected ${RULE_ACTIONS.join(', ')})`;
+    if (rule.action === 'move-to' && !rule.destination) return 'move-to needs a destination';
+    if (rule.action === 'quarantine' && !this.context.quarantine) return 'quarantine is not available';
+
+    // Every file below such a root would be refused one by one, so reject the rule once
+    for (const root of rule.paths) {
+      if (await this.guard.isProtectedRoot(OSDetector.expandHome(root))) {
+        return `${root} is a protected location; point the rule at a folder inside it`;
+      }
+    }
+
+    return null;
+  }
+
+  private async runRule(rule: CleanupRule): Promise<RuleResult> {
+    const result: RuleResult = {
+      name: rule.name,
+      action: rule.action,
+      filesMatched: 0,
+      filesProcessed: 0,
+      spaceSaved: 0
+    };
+
+    this.currentRule = rule;
+
+    try {
+      for (const root of rule.paths.map(rootPath => OSDetector.expandHome(rootPath))) {
+        if (!(await this.pathExists(root))) {
+          if (this.debug) {
+            console.log(`DEBUG: Rule ${rule.name}: root ${root} does not exist`);
+          }
+          continue;
+        }
+
+        const include = rule.include && rule.include.length > 0 ? rule.include : ['**/*'];
+        const files = await this.findFiles(
+          include.map(pattern => path.join(root, pattern)),
+          (rule.exclude || []).map(pattern => path.join(root, pattern))
+        );
+
+        for (const file of files) {
+          if (this.handled.has(file) || !(await this.matchesFilters(file, rule))) {
+            continue;
+          }
+
+          this.handled.add(file);
+          result.filesMatched++;
+
+          const skipReason = await this.getSkipReason(file);
+          if (skipReason) {
+            this.skipFile(file, skipReason);
+            continue;
+          }
+
+          const saved = await this.applyAction(file, root, rule);
+          if (saved !== null) {
+            result.filesProcessed++;
+            result.spaceSaved += saved;
+          }
+        }
+      }
+    } catch (error) {
+      this.errors.push(`Error running rule ${rule.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.currentRule = undefined;
+    }
+
+    return result;
+  }
+
+  private async matchesFilters(filePath: string, rule: CleanupRule): Promise<boolean> {
+    if (rule.minAgeDays && !(await this.isFileOldEnough(filePath, rule.minAgeDays))) {
+      return false;
+    }
+
+    if (rule.minSize === undefined && rule.maxSize === undefined) {
+      return true;
+    }
+
+    const size = await this.getFileSize(filePath);
+
+    if (rule.minSize !== undefined && size < rule.minSize) return false;
+    if (rule.maxSize !== undefined && size > rule.maxSize) return false;
+
+    return true;
+  }
+
+  // Returns the space freed, or null when the file was not handled
+  private async applyAction(filePath: string, root: string, rule: CleanupRule): Promise<number | null> {
+    switch (rule.action) {
+      case 'delete':
+      case 'quarantine': {
+        const result = await this.deleteFile(filePath, root);
+        return result.deleted ? result.size : null;
+      }
+      case 'move-to':
+        return this.moveToDestination(filePath, root, OSDetector.expandHome(rule.destination!));
+      case 'archive':
+        return this.archive(filePath, root, this.getArchiveDirectory(rule));
+    }
+  }
+
+  private async moveToDestination(filePath: string, root: string, destination: string): Promise<number | null> {
+    try {
+      const target = await this.getUniquePath(path.join(destination, path.relative(root, filePath)));
+
+      await this.ensureDirectory(path.dirname(target));
+      if (!(await this.moveFile(filePath, target, root))) {
+        return null;
+      }
+
+      // Moving does not free any space unless the destination is on another disk
+      return 0;
+    } catch (error) {
+      this.errors.push(`Failed to move ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  // Compresses the file into the archive directory, mirroring its path below the root, then deletes it
+  private async archive(filePath: string, root: string, archiveDir: string): Promise<number | null> {
+    const target = await this.getUniquePath(path.join(archiveDir, path.relative(root, filePath)) + '.gz');
+    let archivedSize = 0;
+
+    if (!this.dryRun) {
+      try {
+        await this.ensureDirectory(path.dirname(target));
+        await pipeline(fs.createReadStream(filePath), zlib.createGzip(), fs.createWriteStream(target));
+        archivedSize = await this.getFileSize(target);
+      } catch (error) {
+        await fs.remove(target).catch(() => undefined);
+        this.errors.push(`Failed to archive ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return null;
+      }
+    }
+
+    const result = await this.deleteFile(filePath, root);
+
+    if (!result.deleted) {
+      // Keep the original and drop the copy rather than ending up with both
+      if (!this.dryRun) {
+        await fs.remove(target).catch(() => undefined);
+      }
+      return null;
+    }
+
+    return Math.max(result.size - archivedSize, 0);
+  }
+
+  private getArchiveDirectory(rule: CleanupRule): string {
+    if (rule.destination) {
+      return OSDetector.expandHome(rule.destination);
+    }
+
+    const folderName = rule.name.replace(/[^a-zA-Z0-9._-]+/g, '-');
+    return path.join(OSDetector.getHomeDirectory(), '.cleanmypc', 'archive', folderName);
+  }
+
+  private async getUniquePath(targetPath: string): Promise<string> {
+    const parsed = path.parse(targetPath);
+    let candidate = targetPath;
+    let counter = 1;
+
+    while (await this.pathExists(candidate)) {
+      candidate = path.join(parsed.dir, `${parsed.name} (${counter})${parsed.ext}`);
+      counter++;
+    }
+
+    return candidate;
+  }
+}
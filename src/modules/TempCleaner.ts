@@ -1,11 +1,22 @@
 import * as path from 'path';
-import { BaseCleaner } from './BaseCleaner';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
 import { CleanupResult } from '../CleanupManager';
 import { OSDetector } from '../utils/OSDetector';
+import { PackageCacheCleaner } from './PackageCacheCleaner';
+import { ThumbnailCleaner } from './ThumbnailCleaner';
 
 export class TempCleaner extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'temp',
+    title: 'Temporary files',
+    description: 'Clean temporary files',
+    icon: '🗂️ ',
+    defaultEnabled: true
+  };
+
   async clean(): Promise<CleanupResult> {
     this.clearErrors();
+    this.clearSkipped();
     
     let filesDeleted = 0;
     let spaceSaved = 0;
@@ -24,6 +35,8 @@ export class TempCleaner extends BaseCleaner {
       task: 'temp',
       filesDeleted,
       spaceSaved,
+      skipped: this.getSkipped(),
+      refusals: this.getRefusals(),
       errors: this.getErrors()
     };
   }
@@ -111,7 +124,9 @@ export class TempCleaner extends BaseCleaner {
         console.log(`DEBUG: Looking for patterns:`, tempFilePatterns);
       }
 
-      const files = await this.findFiles(tempFilePatterns);
+      // ~/.cache and ~/Library/Caches contain package manager caches and thumbnails that have their own cleaners
+      const managedExcludes = [...PackageCacheCleaner.getManagedExcludes(), ...ThumbnailCleaner.getManagedExcludes()];
+      const files = await this.findFiles(tempFilePatterns, managedExcludes);
       
       if (this.debug) {
         console.log(`DEBUG: Found ${files.length} files matching patterns`);
@@ -121,9 +136,16 @@ export class TempCleaner extends BaseCleaner {
         if (this.debug) {
           console.log(`DEBUG: Processing file: ${file}`);
         }
+        
+        const skipReason = await this.getSkipReason(file);
+        if (skipReason) {
+          this.skipFile(file, skipReason);
+          continue;
+        }
+        
         // Only delete files that are old enough
-        if (this.isFileOldEnough(file, this.config.maxFileAge)) {
-          const result = await this.deleteFile(file);
+        if (await this.isFileOldEnough(file, this.config.maxFileAge)) {
+          const result = await this.deleteFile(file, tempPath);
           if (result.deleted) {
             filesDeleted++;
             spaceSaved += result.size;
@@ -143,11 +165,18 @@ export class TempCleaner extends BaseCleaner {
         path.join(tempPath, '*/')
       ];
 
-      const dirs = await this.findDirectories(tempDirPatterns);
+      const dirs = await this.findDirectories(tempDirPatterns, managedExcludes);
       
       for (const dir of dirs) {
         if (await this.isDirectoryEmpty(dir)) {
-          const result = await this.deleteDirectory(dir);
+          // An empty directory can still be the working directory of a running process
+          const skipReason = await this.getSkipReason(dir);
+          if (skipReason) {
+            this.skipFile(dir, skipReason);
+            continue;
+          }
+          
+          const result = await this.deleteDirectory(dir, tempPath);
           if (result.deleted) {
             // Directory deletion is counted as 1 file for simplicity
             filesDeleted++;
@@ -161,13 +190,4 @@ export class TempCleaner extends BaseCleaner {
 
     return { filesDeleted, spaceSaved };
   }
-
-  private async isDirectoryEmpty(dirPath: string): Promise<boolean> {
-    try {
-      const items = await require('fs-extra').readdir(dirPath);
-      return items.length === 0;
-    } catch {
-      return false;
-    }
-  }
 }
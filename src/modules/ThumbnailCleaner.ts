@@ -0,0 +1,170 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { fileURLToPath } from 'url';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
+import { CleanupResult } from '../CleanupManager';
+import { OSDetector } from '../utils/OSDetector';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+type ThumbnailState = 'valid' | 'orphaned' | 'stale' | 'unverifiable';
+
+/**
+ * Cleans the freedesktop.org thumbnail cache. Every thumbnail records the
+ * URI and modification time of the file it was made from in PNG text chunks
+ * (Thumb::URI, Thumb::MTime); only thumbnails whose source is gone or was
+ * modified since are deleted. Thumbnails of non-local files, or without the
+ * required chunks, cannot be checked and are kept.
+ */
+export class ThumbnailCleaner extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'thumbnails',
+    title: 'Thumbnails',
+    description: 'Remove thumbnails of deleted or changed files',
+    icon: '🖼️ ',
+    defaultEnabled: true,
+    platforms: ['linux']
+  };
+
+  static getThumbnailRoots(): string[] {
+    const homeDir = OSDetector.getHomeDirectory();
+    const cacheHome = process.env.XDG_CACHE_HOME || path.join(homeDir, '.cache');
+
+    // ~/.thumbnails is where older desktops kept them
+    return [path.join(cacheHome, 'thumbnails'), path.join(homeDir, '.thumbnails')];
+  }
+
+  // Ignore patterns that keep the generic temp and cache sweeps out of the thumbnail cache
+  static getManagedExcludes(): string[] {
+    return ThumbnailCleaner.getThumbnailRoots().flatMap(root => [root, path.join(root, '**')]);
+  }
+
+  async clean(): Promise<CleanupResult> {
+    this.clearErrors();
+    this.clearSkipped();
+
+    let filesDeleted = 0;
+    let spaceSaved = 0;
+    let thumbnailsKept = 0;
+
+    for (const root of ThumbnailCleaner.getThumbnailRoots()) {
+      if (!(await this.pathExists(root))) continue;
+
+      try {
+        // normal/, large/, x-large/, xx-large/ and fail/<application>/
+        const thumbnails = (await this.walker.walk(root))
+          .filter(entry => entry.stats.isFile() && entry.name.endsWith('.png'));
+
+        for (const thumbnail of thumbnails) {
+          const state = await this.checkThumbnail(thumbnail.path);
+
+          if (state === 'valid' || state === 'unverifiable') {
+            thumbnailsKept++;
+            continue;
+          }
+
+          if (this.debug) {
+            console.log(`DEBUG: Thumbnail ${thumbnail.path} is ${state}`);
+          }
+
+          const result = await this.deleteFile(thumbnail.path, root);
+          if (result.deleted) {
+            filesDeleted++;
+            spaceSaved += result.size;
+          }
+        }
+      } catch (error) {
+        this.errors.push(`Error cleaning thumbnails in ${root}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return {
+      task: 'thumbnails',
+      filesDeleted,
+      spaceSaved,
+      thumbnailsKept,
+      skipped: this.getSkipped(),
+      refusals: this.getRefusals(),
+      errors: this.getErrors()
+    };
+  }
+
+  private async checkThumbnail(thumbnailPath: string): Promise<ThumbnailState> {
+    let chunks: Map<string, string>;
+    try {
+      chunks = this.readTextChunks(await fs.readFile(thumbnailPath));
+    } catch {
+      return 'unverifiable';
+    }
+
+    const uri = chunks.get('Thumb::URI');
+    const mtime = Number(chunks.get('Thumb::MTime'));
+
+    if (!uri || !uri.startsWith('file://') || !Number.isFinite(mtime)) {
+      return 'unverifiable';
+    }
+
+    let sourcePath: string;
+    try {
+      sourcePath = fileURLToPath(uri);
+    } catch {
+      return 'unverifiable';
+    }
+
+    try {
+      const stats = await fs.stat(sourcePath);
+      // Thumb::MTime is in whole seconds
+      return Math.floor(stats.mtimeMs / 1000) === Math.floor(mtime) ? 'valid' : 'stale';
+    } catch (error) {
+      // Unreadable is not the same as deleted
+      return (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'orphaned' : 'unverifiable';
+    }
+  }
+
+  // Keyword/text pairs of the tEXt, zTXt and iTXt chunks of a PNG file
+  private readTextChunks(buffer: Buffer): Map<string, string> {
+    const chunks = new Map<string, string>();
+
+    if (buffer.length < PNG_SIGNATURE.length || !buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+      throw new Error('Not a PNG file');
+    }
+
+    // Each chunk is length, type, data and a CRC
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= buffer.length) {
+      const length = buffer.readUInt32BE(offset);
+      const type = buffer.toString('latin1', offset + 4, offset + 8);
+      const data = buffer.subarray(offset + 8, offset + 8 + length);
+
+      if (type === 'IEND') break;
+
+      const separator = data.indexOf(0);
+      if (separator > 0) {
+        const keyword = data.toString('latin1', 0, separator);
+
+        if (type === 'tEXt') {
+          chunks.set(keyword, data.toString('latin1', separator + 1));
+        } else if (type === 'zTXt') {
+          chunks.set(keyword, zlib.inflateSync(data.subarray(separator + 2)).toString('latin1'));
+        } else if (type === 'iTXt') {
+          chunks.set(keyword, this.readInternationalText(data, separator));
+        }
+      }
+
+      offset += length + 12;
+    }
+
+    return chunks;
+  }
+
+  // iTXt: keyword, compression flag and method, language tag and translated keyword, then UTF-8 text
+  private readInternationalText(data: Buffer, separator: number): string {
+    const compressed = data[separator + 1] === 1;
+    const languageEnd = data.indexOf(0, separator + 3);
+    const translatedEnd = data.indexOf(0, languageEnd + 1);
+    const text = data.subarray(translatedEnd + 1);
+
+    return (compressed ? zlib.inflateSync(text) : text).toString('utf8');
+  }
+}
@@ -1,22 +1,43 @@
 import * as path from 'path';
-import { BaseCleaner } from './BaseCleaner';
-import { CleanupResult } from '../CleanupManager';
+import { BaseCleaner, TaskMetadata } from './BaseCleaner';
+import { CleanupResult, TrashVolumeResult } from '../CleanupManager';
 import { OSDetector } from '../utils/OSDetector';
+import { TrashDirectory, TrashStore } from '../utils/TrashStore';
 
 export class TrashCleaner extends BaseCleaner {
+  static meta: TaskMetadata = {
+    id: 'trash',
+    title: 'Trash',
+    description: 'Empty trash/recycle bin',
+    icon: '🗑️ ',
+    defaultEnabled: true
+  };
+
   async clean(): Promise<CleanupResult> {
     this.clearErrors();
     
     let filesDeleted = 0;
     let spaceSaved = 0;
+    const trashVolumes: TrashVolumeResult[] = [];
 
-    const trashPaths = this.getTrashPaths();
-    
-    for (const trashPath of trashPaths) {
-      if (await this.pathExists(trashPath)) {
-        const result = await this.cleanTrashPath(trashPath);
-        filesDeleted += result.filesDeleted;
-        spaceSaved += result.spaceSaved;
+    if (OSDetector.isLinux()) {
+      // The home trash plus the trash directories at the top of every mounted volume
+      const discovery = await TrashStore.findTrashDirectories();
+      this.errors.push(...discovery.problems);
+      
+      for (const directory of discovery.directories) {
+        const volume = await this.cleanLinuxTrash(directory);
+        trashVolumes.push(volume);
+        filesDeleted += volume.itemsDeleted;
+        spaceSaved += volume.spaceSaved;
+      }
+    } else {
+      for (const trashPath of this.getTrashPaths()) {
+        if (await this.pathExists(trashPath)) {
+          const result = await this.cleanTrashPath(trashPath);
+          filesDeleted += result.filesDeleted;
+          spaceSaved += result.spaceSaved;
+        }
       }
     }
 
@@ -24,6 +45,8 @@ export class TrashCleaner extends BaseCleaner {
       task: 'trash',
       filesDeleted,
       spaceSaved,
+      trashVolumes: trashVolumes.length > 0 ? trashVolumes : undefined,
+      refusals: this.getRefusals(),
       errors: this.getErrors()
     };
   }
@@ -51,12 +74,6 @@ export class TrashCleaner extends BaseCleaner {
         '/Volumes/*/.Trashes',
         '/.Trashes'
       );
-    } else {
-      // Linux Trash locations (following XDG specification)
-      paths.push(
-        path.join(homeDir, '.local', 'share', 'Trash'),
-        '/tmp/.Trash-*'
-      );
     }
 
     return paths.filter(p => p);
@@ -101,12 +118,12 @@ export class TrashCleaner extends BaseCleaner {
       if (osType === 'windows') {
         // Windows Recycle Bin structure
         await this.cleanWindowsRecycleBin(trashPath);
-      } else if (osType === 'macos') {
+      } else {
         // macOS Trash structure
         const trashFiles = await this.findFiles([path.join(trashPath, '**', '*')]);
         
         for (const file of trashFiles) {
-          const result = await this.deleteFile(file);
+          const result = await this.deleteFile(file, trashPath);
           if (result.deleted) {
             filesDeleted++;
             spaceSaved += result.size;
@@ -117,15 +134,12 @@ export class TrashCleaner extends BaseCleaner {
         const trashDirs = await this.findDirectories([path.join(trashPath, '**')]);
         for (const dir of trashDirs.reverse()) { // Delete from deepest first
           if (await this.isDirectoryEmpty(dir)) {
-            const result = await this.deleteDirectory(dir);
+            const result = await this.deleteDirectory(dir, trashPath);
             if (result.deleted) {
               filesDeleted++;
             }
           }
         }
-      } else {
-        // Linux Trash structure (XDG specification)
-        await this.cleanLinuxTrash(trashPath);
       }
 
     } catch (error) {
@@ -148,7 +162,7 @@ export class TrashCleaner extends BaseCleaner {
         const files = await this.findFiles([path.join(userFolder, '**', '*')]);
         
         for (const file of files) {
-          const result = await this.deleteFile(file);
+          const result = await this.deleteFile(file, recycleBinPath);
           if (result.deleted) {
             filesDeleted++;
             spaceSaved += result.size;
@@ -159,7 +173,7 @@ export class TrashCleaner extends BaseCleaner {
         const dirs = await this.findDirectories([path.join(userFolder, '**')]);
         for (const dir of dirs.reverse()) {
           if (await this.isDirectoryEmpty(dir)) {
-            const result = await this.deleteDirectory(dir);
+            const result = await this.deleteDirectory(dir, recycleBinPath);
             if (result.deleted) {
               filesDeleted++;
             }
@@ -173,65 +187,47 @@ export class TrashCleaner extends BaseCleaner {
     return { filesDeleted, spaceSaved };
   }
 
-  private async cleanLinuxTrash(trashPath: string): Promise<{ filesDeleted: number; spaceSaved: number }> {
-    let filesDeleted = 0;
-    let spaceSaved = 0;
+  // Items are removed together with their .trashinfo file; with trash.retentionDays only items deleted before the cutoff
+  private async cleanLinuxTrash(directory: TrashDirectory): Promise<TrashVolumeResult> {
+    const trashPath = directory.path;
+    const volume: TrashVolumeResult = { mountPoint: directory.mountPoint, path: trashPath, items: 0, size: 0, itemsDeleted: 0, spaceSaved: 0 };
 
     try {
-      // Linux trash has 'files' and 'info' directories
-      const filesDir = path.join(trashPath, 'files');
-      const infoDir = path.join(trashPath, 'info');
-
-      // Clean files directory
-      if (await this.pathExists(filesDir)) {
-        const files = await this.findFiles([path.join(filesDir, '**', '*')]);
-        
-        for (const file of files) {
-          const result = await this.deleteFile(file);
-          if (result.deleted) {
-            filesDeleted++;
-            spaceSaved += result.size;
-          }
+      const store = new TrashStore(trashPath, directory.topDir);
+      const items = await store.list();
+      const retentionDays = this.config.trash?.retentionDays || 0;
+      const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+      volume.items = items.length;
+      volume.size = items.reduce((total, item) => total + item.size, 0);
+
+      for (const item of items) {
+        // Without a deletion date the age of an item is unknown
+        if (retentionDays > 0 && (!item.deletionDate || item.deletionDate.getTime() > cutoff)) {
+          continue;
         }
 
-        // Clean directories in files
-        const dirs = await this.findDirectories([path.join(filesDir, '**')]);
-        for (const dir of dirs.reverse()) {
-          if (await this.isDirectoryEmpty(dir)) {
-            const result = await this.deleteDirectory(dir);
-            if (result.deleted) {
-              filesDeleted++;
-            }
-          }
-        }
-      }
+        const result = item.type === 'directory'
+          ? await this.deleteDirectory(item.filePath, trashPath)
+          : await this.deleteFile(item.filePath, trashPath);
 
-      // Clean info directory (metadata files)
-      if (await this.pathExists(infoDir)) {
-        const infoFiles = await this.findFiles([path.join(infoDir, '*.trashinfo')]);
-        
-        for (const infoFile of infoFiles) {
-          const result = await this.deleteFile(infoFile);
-          if (result.deleted) {
-            filesDeleted++;
-            spaceSaved += result.size;
+        if (result.deleted) {
+          volume.itemsDeleted++;
+          volume.spaceSaved += result.size;
+
+          if (await this.pathExists(item.infoPath)) {
+            await this.deleteFile(item.infoPath, trashPath);
           }
         }
       }
 
+      for (const infoPath of await store.listOrphanedInfo()) {
+        await this.deleteFile(infoPath, trashPath);
+      }
     } catch (error) {
-      this.errors.push(`Error cleaning Linux trash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.errors.push(`Error cleaning trash ${trashPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
-    return { filesDeleted, spaceSaved };
-  }
-
-  private async isDirectoryEmpty(dirPath: string): Promise<boolean> {
-    try {
-      const items = await require('fs-extra').readdir(dirPath);
-      return items.length === 0;
-    } catch {
-      return false;
-    }
+    return volume;
   }
 }
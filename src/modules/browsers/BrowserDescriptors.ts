@@ -0,0 +1,97 @@
+import * as path from 'path';
+import { BrowserId } from '../../utils/ConfigManager';
+import { OSDetector, OSType } from '../../utils/OSDetector';
+
+export type BrowserEngine = 'chromium' | 'firefox' | 'safari';
+
+export interface BrowserDescriptor {
+  id: BrowserId; // also the key in config.browsers
+  name: string;
+  engine: BrowserEngine;
+  platforms?: OSType[]; // all platforms when omitted
+  userDataDir: () => string; // holds the profiles, '' where the browser does not exist
+  cacheDir?: () => string; // disk caches kept outside the profiles, mirroring their layout
+  singleProfile?: boolean; // the user data directory is the one and only profile
+  ownsProfile?: (profilePath: string) => boolean; // browsers sharing a profiles.ini
+  executables: string[]; // process names of the browser on Linux
+}
+
+type PlatformPaths = Partial<Record<OSType, () => string>>;
+
+const home = () => OSDetector.getHomeDirectory();
+const localAppData = () => process.env.LOCALAPPDATA || '';
+const appData = () => process.env.APPDATA || '';
+const configHome = () => process.env.XDG_CONFIG_HOME || path.join(home(), '.config');
+const cacheHome = () => process.env.XDG_CACHE_HOME || path.join(home(), '.cache');
+const applicationSupport = () => path.join(home(), 'Library', 'Application Support');
+const libraryCaches = () => path.join(home(), 'Library', 'Caches');
+
+function byPlatform(paths: PlatformPaths): () => string {
+  return () => paths[OSDetector.getOS()]?.() || '';
+}
+
+// Chromium derivatives share one layout and only differ in where they keep it
+function chromium(id: BrowserId, name: string, windows: string, macos: string, linux: string, executables: string[], singleProfile: boolean = false): BrowserDescriptor {
+  return {
+    id,
+    name,
+    engine: 'chromium',
+    executables,
+    userDataDir: byPlatform({
+      windows: () => path.join(singleProfile ? appData() : localAppData(), windows),
+      macos: () => path.join(applicationSupport(), macos),
+      linux: () => path.join(configHome(), linux)
+    }),
+    // Windows keeps the disk cache inside the profile, under Local AppData for roaming profiles
+    cacheDir: byPlatform({
+      windows: () => singleProfile ? path.join(localAppData(), windows) : '',
+      macos: () => path.join(libraryCaches(), macos),
+      linux: () => path.join(cacheHome(), linux)
+    }),
+    singleProfile
+  };
+}
+
+// Firefox ESR creates its own default profile (xxxxxxxx.default-esr) in the same profiles.ini
+const isEsrProfile = (profilePath: string) => /-esr\d*$/i.test(path.basename(profilePath));
+
+function firefox(id: BrowserId, name: string, executables: string[], ownsProfile: (profilePath: string) => boolean): BrowserDescriptor {
+  return {
+    id,
+    name,
+    engine: 'firefox',
+    executables,
+    userDataDir: byPlatform({
+      windows: () => path.join(appData(), 'Mozilla', 'Firefox'),
+      macos: () => path.join(applicationSupport(), 'Firefox'),
+      linux: () => path.join(home(), '.mozilla', 'firefox')
+    }),
+    cacheDir: byPlatform({
+      windows: () => path.join(localAppData(), 'Mozilla', 'Firefox'),
+      macos: () => path.join(libraryCaches(), 'Firefox'),
+      linux: () => path.join(cacheHome(), 'mozilla', 'firefox')
+    }),
+    ownsProfile
+  };
+}
+
+export const BROWSERS: BrowserDescriptor[] = [
+  chromium('chrome', 'Chrome', path.join('Google', 'Chrome', 'User Data'), path.join('Google', 'Chrome'), 'google-chrome', ['chrome', 'google-chrome', 'google-chrome-stable']),
+  chromium('chromium', 'Chromium', path.join('Chromium', 'User Data'), 'Chromium', 'chromium', ['chromium', 'chromium-browser']),
+  chromium('edge', 'Edge', path.join('Microsoft', 'Edge', 'User Data'), 'Microsoft Edge', 'microsoft-edge', ['msedge', 'microsoft-edge', 'microsoft-edge-stable']),
+  chromium('brave', 'Brave', path.join('BraveSoftware', 'Brave-Browser', 'User Data'), path.join('BraveSoftware', 'Brave-Browser'), path.join('BraveSoftware', 'Brave-Browser'), ['brave', 'brave-browser']),
+  chromium('vivaldi', 'Vivaldi', path.join('Vivaldi', 'User Data'), 'Vivaldi', 'vivaldi', ['vivaldi', 'vivaldi-bin']),
+  chromium('opera', 'Opera', path.join('Opera Software', 'Opera Stable'), 'com.operasoftware.Opera', 'opera', ['opera'], true),
+  firefox('firefox', 'Firefox', ['firefox', 'firefox-bin'], profilePath => !isEsrProfile(profilePath)),
+  firefox('firefoxEsr', 'Firefox ESR', ['firefox-esr'], isEsrProfile),
+  {
+    id: 'safari',
+    name: 'Safari',
+    engine: 'safari',
+    platforms: ['macos'],
+    userDataDir: () => path.join(home(), 'Library', 'Safari'),
+    cacheDir: () => path.join(libraryCaches(), 'com.apple.Safari'),
+    singleProfile: true,
+    executables: []
+  }
+];
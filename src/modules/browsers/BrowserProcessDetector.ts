@@ -0,0 +1,203 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { OSDetector } from '../../utils/OSDetector';
+import { BrowserDescriptor } from './BrowserDescriptors';
+import { BrowserProfile } from './BrowserProfileFinder';
+
+interface BrowserProcess {
+  pid: number;
+  executable: string; // basename of argv[0]
+  args: string[];
+}
+
+/**
+ * Tells whether a browser is using a profile, so its caches are not deleted
+ * underneath it. Lock files are checked first: Chromium's SingletonLock and
+ * Firefox's lock are symlinks naming the owning process, which tells a live
+ * lock from one left behind by a crash. Firefox's parent.lock and
+ * .parentlock outlive the browser, so they only count together with a
+ * running browser process, found through /proc/<pid>/cmdline on Linux.
+ */
+export class BrowserProcessDetector {
+  private processes?: Promise<BrowserProcess[]>;
+
+  // Reason the profile is in use, or null when it is safe to clean
+  async findUse(browser: BrowserDescriptor, profile: BrowserProfile): Promise<string | null> {
+    switch (browser.engine) {
+      case 'chromium':
+        return this.findChromiumUse(browser);
+      case 'firefox':
+        return this.findFirefoxUse(browser, profile);
+      default:
+        return null;
+    }
+  }
+
+  // Processes are listed once and reused until the next refresh, e.g. between polls while waiting
+  refresh(): void {
+    this.processes = undefined;
+  }
+
+  // One browser instance serves every profile of its user data directory and locks the directory as a whole
+  private async findChromiumUse(browser: BrowserDescriptor): Promise<string | null> {
+    const userDataDir = browser.userDataDir();
+    const lockOwner = await this.readLockOwner(path.join(userDataDir, 'SingletonLock'), /^(.+)-(\d+)$/);
+
+    if (lockOwner) {
+      return lockOwner;
+    }
+
+    const running = (await this.getProcesses(browser)).find(candidate => {
+      // Renderers, GPU and utility processes carry --type and exit with the browser process
+      if (candidate.args.some(arg => arg.startsWith('--type='))) {
+        return false;
+      }
+
+      const dirArg = candidate.args.find(arg => arg.startsWith('--user-data-dir='));
+      return dirArg ? this.isSamePath(dirArg.slice('--user-data-dir='.length), userDataDir) : true;
+    });
+
+    return running ? `${browser.name} is running (pid ${running.pid})` : null;
+  }
+
+  private async findFirefoxUse(browser: BrowserDescriptor, profile: BrowserProfile): Promise<string | null> {
+    const lockPath = path.join(profile.path, 'lock');
+
+    // Linux keeps a lock symlink pointing at <ip>:+<pid> next to .parentlock
+    if (await this.isSymbolicLink(lockPath)) {
+      return this.readLockOwner(lockPath, /^(.*):\+(\d+)$/);
+    }
+
+    // Windows holds parent.lock open without sharing while the profile is in use
+    const parentLock = path.join(profile.path, 'parent.lock');
+    if (OSDetector.isWindows() && await this.isHeldOpen(parentLock)) {
+      return `${browser.name} is using the profile (${parentLock} is locked)`;
+    }
+
+    const hasLockFile = await fs.pathExists(parentLock) || await fs.pathExists(path.join(profile.path, '.parentlock'));
+    if (!hasLockFile) {
+      return null;
+    }
+
+    const running = (await this.getProcesses(browser)).find(candidate => {
+      if (candidate.args.includes('-contentproc')) {
+        return false;
+      }
+
+      const profileIndex = candidate.args.findIndex(arg => arg === '-profile' || arg === '--profile');
+      if (profileIndex !== -1) {
+        return this.isSamePath(candidate.args[profileIndex + 1] || '', profile.path);
+      }
+
+      const nameIndex = candidate.args.findIndex(arg => arg === '-P' || arg === '-p');
+      if (nameIndex !== -1) {
+        return candidate.args[nameIndex + 1] === profile.name;
+      }
+
+      // Started without naming a profile: it may be this one
+      return true;
+    });
+
+    return running ? `${browser.name} is running (pid ${running.pid})` : null;
+  }
+
+  // Lock symlinks point at a string naming the host and pid that own them rather than at a file
+  private async readLockOwner(lockPath: string, pattern: RegExp): Promise<string | null> {
+    let target: string;
+    try {
+      target = await fs.readlink(lockPath);
+    } catch {
+      // No lock, or a regular file on platforms without symlinks
+      return null;
+    }
+
+    const match = target.match(pattern);
+    if (!match) {
+      return `${lockPath} is locked`;
+    }
+
+    const [, host, pid] = match;
+
+    // Firefox writes an IP address, Chromium the hostname; only our own hostname can be checked
+    if (host !== os.hostname() && !/^[\d.:]+$/.test(host)) {
+      return `${lockPath} is held by ${host}`;
+    }
+
+    return this.isProcessAlive(parseInt(pid, 10)) ? `locked by running process ${pid} (${lockPath})` : null;
+  }
+
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM: the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  private async isSymbolicLink(targetPath: string): Promise<boolean> {
+    try {
+      return (await fs.lstat(targetPath)).isSymbolicLink();
+    } catch {
+      return false;
+    }
+  }
+
+  private async isHeldOpen(filePath: string): Promise<boolean> {
+    try {
+      const fd = await fs.open(filePath, 'r+');
+      await fs.close(fd);
+      return false;
+    } catch (error) {
+      const { code } = error as NodeJS.ErrnoException;
+      return code === 'EBUSY' || code === 'EPERM';
+    }
+  }
+
+  private isSamePath(a: string, b: string): boolean {
+    return path.resolve(OSDetector.expandHome(a)) === path.resolve(b);
+  }
+
+  private async getProcesses(browser: BrowserDescriptor): Promise<BrowserProcess[]> {
+    if (!this.processes) {
+      this.processes = OSDetector.isLinux() ? this.listProcesses() : Promise.resolve([]);
+    }
+
+    return (await this.processes).filter(candidate => browser.executables.includes(candidate.executable));
+  }
+
+  private async listProcesses(): Promise<BrowserProcess[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir('/proc');
+    } catch {
+      return [];
+    }
+
+    const processes: BrowserProcess[] = [];
+
+    for (const pid of entries.filter(entry => /^\d+$/.test(entry))) {
+      let cmdline: string;
+      try {
+        cmdline = await fs.readFile(path.join('/proc', pid, 'cmdline'), 'utf8');
+      } catch {
+        // Exited while listing
+        continue;
+      }
+
+      let args = cmdline.split('\0').filter(arg => arg);
+      // Chromium child processes rewrite their command line into one space-separated string
+      if (args.length === 1 && args[0].includes(' -')) {
+        args = args[0].split(' ');
+      }
+
+      if (args.length > 0) {
+        processes.push({ pid: parseInt(pid, 10), executable: path.basename(args[0]), args: args.slice(1) });
+      }
+    }
+
+    return processes;
+  }
+}
@@ -0,0 +1,115 @@
+import { BaseCleaner } from '../BaseCleaner';
+import { OSDetector } from '../../utils/OSDetector';
+import { BROWSERS, BrowserDescriptor } from './BrowserDescriptors';
+import { BrowserProfile, BrowserProfileFinder } from './BrowserProfileFinder';
+import { BrowserProcessDetector } from './BrowserProcessDetector';
+
+const WAIT_POLL_INTERVAL_MS = 2000;
+
+export interface BrowserProfileSelection {
+  profiles: BrowserProfile[]; // every profile of the browser
+  selected: BrowserProfile[]; // the ones browsers.profiles asks for
+  inUse: Map<BrowserProfile, string>; // selected profiles the browser is using, with the reason
+}
+
+/**
+ * Base class for tasks working on browser profiles: which browsers are
+ * enabled, which of their profiles browsers.profiles selects, and which of
+ * those the browser is using right now (waiting for it to exit with
+ * browsers.waitForClose).
+ */
+export abstract class BrowserProfileCleaner extends BaseCleaner {
+  protected finder = new BrowserProfileFinder();
+  protected detector = new BrowserProcessDetector();
+
+  protected getEnabledBrowsers(): BrowserDescriptor[] {
+    return BROWSERS.filter(browser => this.isBrowserEnabled(browser));
+  }
+
+  // null when the profiles cannot be read, which is reported as an error
+  protected async selectProfiles(browser: BrowserDescriptor): Promise<BrowserProfileSelection | null> {
+    let profiles: BrowserProfile[];
+    try {
+      profiles = await this.finder.find(browser);
+    } catch (error) {
+      this.errors.push(`Error reading ${browser.name} profiles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+
+    const selected = profiles.filter(profile => this.isProfileSelected(profile));
+    let inUse = await this.findProfilesInUse(browser, selected);
+
+    if (inUse.size > 0 && this.config.browsers.waitForClose) {
+      inUse = await this.waitForClose(browser, selected, inUse);
+    }
+
+    inUse.forEach((reason, profile) => {
+      this.errors.push(`Skipped ${browser.name} profile "${profile.name}": ${reason}. Close the browser or run with --wait-for-close`);
+    });
+
+    return { profiles, selected, inUse };
+  }
+
+  // Checks again right before a change that cannot be undone while the browser has the files open
+  protected async isProfileInUse(browser: BrowserDescriptor, profile: BrowserProfile): Promise<boolean> {
+    this.detector.refresh();
+    return (await this.detector.findUse(browser, profile)) !== null;
+  }
+
+  private async findProfilesInUse(browser: BrowserDescriptor, profiles: BrowserProfile[]): Promise<Map<BrowserProfile, string>> {
+    const inUse = new Map<BrowserProfile, string>();
+
+    for (const profile of profiles) {
+      const reason = await this.detector.findUse(browser, profile);
+      if (reason) {
+        inUse.set(profile, reason);
+      }
+    }
+
+    return inUse;
+  }
+
+  // Polls until the browser lets go of the profiles or browsers.waitTimeout runs out
+  private async waitForClose(browser: BrowserDescriptor, profiles: BrowserProfile[], inUse: Map<BrowserProfile, string>): Promise<Map<BrowserProfile, string>> {
+    const deadline = Date.now() + (this.config.browsers.waitTimeout || 0) * 1000;
+
+    while (inUse.size > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, WAIT_POLL_INTERVAL_MS));
+      this.detector.refresh();
+      inUse = await this.findProfilesInUse(browser, profiles);
+    }
+
+    if (inUse.size > 0) {
+      inUse.forEach((reason, profile) => inUse.set(profile, `${reason}, still in use after waiting ${this.config.browsers.waitTimeout}s`));
+    }
+
+    return inUse;
+  }
+
+  private isBrowserEnabled(browser: BrowserDescriptor): boolean {
+    if (browser.platforms && !browser.platforms.includes(OSDetector.getOS())) {
+      return false;
+    }
+
+    // Configs written before a browser was supported do not mention it
+    return this.config.browsers[browser.id] !== false;
+  }
+
+  // browsers.profiles entries look like chrome:Default, chrome:Work or firefox:*
+  private isProfileSelected(profile: BrowserProfile): boolean {
+    const selections = this.config.browsers.profiles || [];
+
+    if (selections.length === 0) {
+      return true;
+    }
+
+    return selections.some(selection => {
+      const separator = selection.indexOf(':');
+      const browser = separator === -1 ? selection : selection.slice(0, separator);
+      const name = separator === -1 ? '*' : selection.slice(separator + 1);
+
+      return (browser === '*' || browser === profile.browser) &&
+        (name === '*' || name === profile.directory || name === profile.name);
+    });
+  }
+}
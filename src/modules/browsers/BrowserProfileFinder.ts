@@ -0,0 +1,225 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { BrowserDescriptor } from './BrowserDescriptors';
+
+export interface BrowserProfile {
+  browser: string; // descriptor id, e.g. chrome
+  browserName: string;
+  directory: string; // profile folder name: Default, Profile 1, abcd1234.default-release
+  name: string; // the name the browser shows for it
+  path: string;
+  cachePaths: string[]; // candidates, not all of them exist
+}
+
+// Per-profile caches of Chromium browsers, inside the profile and in the separate disk cache directory
+const CHROMIUM_PROFILE_CACHES = ['Cache', 'Code Cache', 'GPUCache'];
+const CHROMIUM_DISK_CACHES = ['Cache', 'Code Cache'];
+// Shared by all profiles of a Chromium browser
+const CHROMIUM_SHARED_CACHES = ['ShaderCache', 'GrShaderCache', 'GraphiteDawnCache'];
+const FIREFOX_CACHES = ['cache2', 'startupCache'];
+
+// An entry of profile.info_cache in Local State; the file is the browser's, so nothing in it is guaranteed
+interface ChromiumProfileInfo {
+  name?: unknown;
+}
+
+/**
+ * Finds the profiles of a browser: Chromium browsers list them in the
+ * profile.info_cache of their Local State file, Firefox in profiles.ini.
+ * When those files are missing the profile folders are recognized by the
+ * files every profile has.
+ */
+export class BrowserProfileFinder {
+  async find(browser: BrowserDescriptor): Promise<BrowserProfile[]> {
+    const userDataDir = browser.userDataDir();
+
+    if (!userDataDir || !(await fs.pathExists(userDataDir))) {
+      return [];
+    }
+
+    switch (browser.engine) {
+      case 'chromium':
+        return this.findChromiumProfiles(browser, userDataDir);
+      case 'firefox':
+        return this.findFirefoxProfiles(browser, userDataDir);
+      case 'safari':
+      default:
+        return [this.createSafariProfile(browser, userDataDir)];
+    }
+  }
+
+  // Caches every profile of the browser uses
+  getSharedCachePaths(browser: BrowserDescriptor): string[] {
+    const userDataDir = browser.userDataDir();
+
+    if (!userDataDir || browser.engine !== 'chromium') {
+      return [];
+    }
+
+    return CHROMIUM_SHARED_CACHES.map(cache => path.join(userDataDir, cache));
+  }
+
+  private async findChromiumProfiles(browser: BrowserDescriptor, userDataDir: string): Promise<BrowserProfile[]> {
+    if (browser.singleProfile) {
+      return [this.createChromiumProfile(browser, userDataDir, '', 'Default')];
+    }
+
+    const names = await this.readChromiumProfileNames(userDataDir);
+    const profiles: BrowserProfile[] = [];
+
+    for (const [directory, name] of names) {
+      if (await fs.pathExists(path.join(userDataDir, directory))) {
+        profiles.push(this.createChromiumProfile(browser, userDataDir, directory, name));
+      }
+    }
+
+    return profiles;
+  }
+
+  // profile.info_cache maps profile folders to the names shown in the profile picker
+  private async readChromiumProfileNames(userDataDir: string): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+
+    try {
+      const localState = await fs.readJson(path.join(userDataDir, 'Local State'));
+      const infoCache = localState?.profile?.info_cache || {};
+
+      for (const [directory, info] of Object.entries<ChromiumProfileInfo | null>(infoCache)) {
+        names.set(directory, typeof info?.name === 'string' && info.name ? info.name : directory);
+      }
+    } catch {
+      // Missing or being rewritten, fall back to the folders below
+    }
+
+    if (names.size === 0) {
+      for (const entry of await this.readDirectories(userDataDir)) {
+        if ((entry === 'Default' || /^Profile \d+$/.test(entry)) && await fs.pathExists(path.join(userDataDir, entry, 'Preferences'))) {
+          names.set(entry, entry);
+        }
+      }
+    }
+
+    return names;
+  }
+
+  private createChromiumProfile(browser: BrowserDescriptor, userDataDir: string, directory: string, name: string): BrowserProfile {
+    const profilePath = path.join(userDataDir, directory);
+    const cacheDir = browser.cacheDir?.();
+    const cachePaths = CHROMIUM_PROFILE_CACHES.map(cache => path.join(profilePath, cache));
+
+    if (cacheDir) {
+      cachePaths.push(...CHROMIUM_DISK_CACHES.map(cache => path.join(cacheDir, directory, cache)));
+    }
+
+    return this.createProfile(browser, directory || 'Default', name, profilePath, cachePaths);
+  }
+
+  private async findFirefoxProfiles(browser: BrowserDescriptor, userDataDir: string): Promise<BrowserProfile[]> {
+    const entries = await this.readProfilesIni(userDataDir);
+    const cacheDir = browser.cacheDir?.();
+    const profiles: BrowserProfile[] = [];
+
+    for (const entry of entries) {
+      const profilePath = entry.isRelative ? path.join(userDataDir, entry.path) : entry.path;
+
+      if (browser.ownsProfile && !browser.ownsProfile(profilePath)) continue;
+      if (!(await fs.pathExists(profilePath))) continue;
+
+      const cachePaths = FIREFOX_CACHES.map(cache => path.join(profilePath, cache));
+
+      // The local (non-roaming) part of a profile mirrors its path below the cache directory
+      if (cacheDir && entry.isRelative) {
+        cachePaths.push(...FIREFOX_CACHES.map(cache => path.join(cacheDir, entry.path, cache)));
+      }
+
+      profiles.push(this.createProfile(browser, path.basename(profilePath), entry.name, profilePath, cachePaths));
+    }
+
+    return profiles;
+  }
+
+  private async readProfilesIni(userDataDir: string): Promise<Array<{ name: string; path: string; isRelative: boolean }>> {
+    const entries: Array<{ name: string; path: string; isRelative: boolean }> = [];
+
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(userDataDir, 'profiles.ini'), 'utf8');
+    } catch {
+      return this.findFirefoxProfileFolders(userDataDir);
+    }
+
+    let section: Map<string, string> | null = null;
+    const sections: Array<Map<string, string>> = [];
+
+    for (const line of content.split(/\r?\n/)) {
+      const trimmed = line.trim();
+
+      if (trimmed.startsWith('[')) {
+        // [Install...] and [General] sections do not describe profiles
+        section = /^\[Profile\d+\]$/.test(trimmed) ? new Map() : null;
+        if (section) sections.push(section);
+      } else if (section && trimmed.includes('=')) {
+        const separator = trimmed.indexOf('=');
+        section.set(trimmed.slice(0, separator).trim(), trimmed.slice(separator + 1).trim());
+      }
+    }
+
+    for (const values of sections) {
+      const profilePath = values.get('Path');
+      if (!profilePath) continue;
+
+      entries.push({
+        name: values.get('Name') || path.basename(profilePath),
+        path: profilePath,
+        isRelative: values.get('IsRelative') !== '0'
+      });
+    }
+
+    return entries;
+  }
+
+  // Every profile has a prefs.js, directly below the Firefox folder on Linux and under Profiles/ elsewhere
+  private async findFirefoxProfileFolders(userDataDir: string): Promise<Array<{ name: string; path: string; isRelative: boolean }>> {
+    const entries: Array<{ name: string; path: string; isRelative: boolean }> = [];
+
+    for (const base of ['', 'Profiles']) {
+      for (const entry of await this.readDirectories(path.join(userDataDir, base))) {
+        if (await fs.pathExists(path.join(userDataDir, base, entry, 'prefs.js'))) {
+          entries.push({ name: entry, path: path.join(base, entry), isRelative: true });
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  private createSafariProfile(browser: BrowserDescriptor, userDataDir: string): BrowserProfile {
+    const cachePaths = [
+      browser.cacheDir?.() || '',
+      path.join(userDataDir, 'WebpageIcons.db'),
+      path.join(userDataDir, 'Webpage Previews')
+    ].filter(cachePath => cachePath);
+
+    return this.createProfile(browser, 'Default', 'Default', userDataDir, cachePaths);
+  }
+
+  private createProfile(browser: BrowserDescriptor, directory: string, name: string, profilePath: string, cachePaths: string[]): BrowserProfile {
+    return {
+      browser: browser.id,
+      browserName: browser.name,
+      directory,
+      name,
+      path: profilePath,
+      cachePaths: [...new Set(cachePaths)]
+    };
+  }
+
+  private async readDirectories(dirPath: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    } catch {
+      return [];
+    }
+  }
+}
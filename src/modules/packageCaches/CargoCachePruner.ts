@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { EvictFunction, PackageCachePruner, PruneResult } from './PackageCachePruner';
+import { OSDetector } from '../../utils/OSDetector';
+
+/**
+ * Cargo downloads .crate archives into registry/cache/<index>/ and unpacks
+ * them into registry/src/<index>/<name>-<version>/. Unpacked sources are
+ * re-extracted from the archive on demand, so they go first and on their
+ * own; an archive is only evicted together with its unpacked copy. The
+ * registry index is left alone.
+ */
+export class CargoCachePruner extends PackageCachePruner {
+  readonly ecosystem = 'cargo';
+
+  getCacheRoots(): string[] {
+    const cargoHome = process.env.CARGO_HOME || path.join(OSDetector.getHomeDirectory(), '.cargo');
+    return [path.join(cargoHome, 'registry')];
+  }
+
+  async prune(root: string, cutoff: number, evict: EvictFunction): Promise<PruneResult> {
+    const result: PruneResult = { itemsEvicted: 0, spaceSaved: 0 };
+    // Dry runs leave evicted sources on disk, so the second pass must not handle them again
+    const handledSources = new Set<string>();
+
+    for (const indexDir of await this.listSubdirectories(path.join(root, 'cache'))) {
+      const srcIndexDir = path.join(root, 'src', path.basename(indexDir));
+
+      for (const crate of (await this.listFiles(indexDir)).filter(file => file.endsWith('.crate'))) {
+        const srcDir = path.join(srcIndexDir, path.basename(crate, '.crate'));
+        const srcExists = await this.getLastUsed(srcDir) > 0;
+        const lastUsed = Math.max(await this.getLastUsed(crate), srcExists ? await this.getSourceLastUsed(srcDir) : 0);
+
+        if (lastUsed >= cutoff) continue;
+
+        const parts: Array<{ path: string; type: 'file' | 'directory' }> = srcExists
+          ? [{ path: srcDir, type: 'directory' }, { path: crate, type: 'file' }]
+          : [{ path: crate, type: 'file' }];
+
+        handledSources.add(srcDir);
+        await this.evictEntry(parts, evict, result);
+      }
+    }
+
+    // Unpacked sources whose archive is still in use, or was already removed
+    for (const srcIndexDir of await this.listSubdirectories(path.join(root, 'src'))) {
+      for (const srcDir of await this.listSubdirectories(srcIndexDir)) {
+        if (!handledSources.has(srcDir) && await this.getSourceLastUsed(srcDir) < cutoff) {
+          await this.evictEntry([{ path: srcDir, type: 'directory' }], evict, result);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Unpacked files keep the mtimes of the published archive, but builds reading them move their atime
+  private async getSourceLastUsed(srcDir: string): Promise<number> {
+    return this.getNewestUse(srcDir, 3);
+  }
+}
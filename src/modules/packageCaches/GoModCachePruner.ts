@@ -0,0 +1,127 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { EvictFunction, PackageCachePruner, PruneResult } from './PackageCachePruner';
+import { OSDetector } from '../../utils/OSDetector';
+
+/**
+ * The Go module cache unpacks every module version into <module>@<version>/
+ * and keeps the downloaded archive in cache/download/<module>/@v/<version>.zip
+ * next to its .ziphash. The unpacked tree is evicted first, then the archive;
+ * the small .mod and .info files stay so `go mod` can still verify go.sum
+ * without the network. Unpacked trees are read-only, so they are made
+ * writable right before they are removed.
+ */
+export class GoModCachePruner extends PackageCachePruner {
+  readonly ecosystem = 'go';
+
+  getCacheRoots(): string[] {
+    if (process.env.GOMODCACHE) {
+      return [process.env.GOMODCACHE];
+    }
+
+    const goPath = (process.env.GOPATH || path.join(OSDetector.getHomeDirectory(), 'go')).split(path.delimiter)[0];
+    return [path.join(goPath, 'pkg', 'mod')];
+  }
+
+  async prune(root: string, cutoff: number, evict: EvictFunction): Promise<PruneResult> {
+    const result: PruneResult = { itemsEvicted: 0, spaceSaved: 0 };
+    const handledArchives = new Set<string>();
+
+    for (const moduleDir of await this.findModuleDirectories(root, root)) {
+      const archive = this.getArchivePath(root, moduleDir);
+      // Builds read the unpacked sources, not the archive
+      const lastUsed = Math.max(await this.getNewestUse(moduleDir, 4), await this.getLastUsed(archive));
+      handledArchives.add(archive);
+
+      if (lastUsed >= cutoff) continue;
+
+      if (!this.dryRun) {
+        await this.makeWritable(moduleDir);
+      }
+
+      await this.evictEntry([{ path: moduleDir, type: 'directory' }, ...(await this.getArchiveParts(archive))], evict, result);
+    }
+
+    // Archives that were downloaded but never unpacked, or whose tree is already gone
+    for (const archive of await this.findArchives(path.join(root, 'cache', 'download'))) {
+      if (!handledArchives.has(archive) && await this.getLastUsed(archive) < cutoff) {
+        await this.evictEntry(await this.getArchiveParts(archive), evict, result);
+      }
+    }
+
+    return result;
+  }
+
+  // <module path>@<version> directories, skipping the download cache
+  private async findModuleDirectories(root: string, dirPath: string): Promise<string[]> {
+    const moduleDirs: string[] = [];
+
+    for (const subdirectory of await this.listSubdirectories(dirPath)) {
+      const name = path.basename(subdirectory);
+
+      if (dirPath === root && name === 'cache') continue;
+
+      if (name.includes('@')) {
+        moduleDirs.push(subdirectory);
+      } else {
+        moduleDirs.push(...(await this.findModuleDirectories(root, subdirectory)));
+      }
+    }
+
+    return moduleDirs;
+  }
+
+  private async findArchives(dirPath: string): Promise<string[]> {
+    const archives: string[] = [];
+
+    for (const entry of await this.readDirectory(dirPath)) {
+      const entryPath = path.join(dirPath, entry.name);
+
+      if (entry.isDirectory()) {
+        archives.push(...(await this.findArchives(entryPath)));
+      } else if (entry.isFile() && entry.name.endsWith('.zip') && path.basename(dirPath) === '@v') {
+        archives.push(entryPath);
+      }
+    }
+
+    return archives;
+  }
+
+  // golang.org/x/text@v0.3.0 -> cache/download/golang.org/x/text/@v/v0.3.0.zip (both use the same escaping)
+  private getArchivePath(root: string, moduleDir: string): string {
+    const relative = path.relative(root, moduleDir);
+    const separator = relative.lastIndexOf('@');
+    return path.join(root, 'cache', 'download', relative.slice(0, separator), '@v', `${relative.slice(separator + 1)}.zip`);
+  }
+
+  // The .ziphash goes before the archive, so go never trusts a hash for a zip it has to download again
+  private async getArchiveParts(archive: string): Promise<Array<{ path: string; type: 'file' | 'directory' }>> {
+    const parts: Array<{ path: string; type: 'file' | 'directory' }> = [];
+    const zipHash = archive.replace(/\.zip$/, '.ziphash');
+
+    if (await this.getLastUsed(zipHash) > 0) {
+      parts.push({ path: zipHash, type: 'file' });
+    }
+
+    if (await this.getLastUsed(archive) > 0) {
+      parts.push({ path: archive, type: 'file' });
+    }
+
+    return parts;
+  }
+
+  private async makeWritable(dirPath: string): Promise<void> {
+    try {
+      const stats = await fs.lstat(dirPath);
+      if (!stats.isDirectory()) return;
+
+      await fs.chmod(dirPath, stats.mode | 0o200);
+
+      for (const subdirectory of await this.listSubdirectories(dirPath)) {
+        await this.makeWritable(subdirectory);
+      }
+    } catch {
+      // Removing the tree will report the failure
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import * as path from 'path';
+import { EvictFunction, PackageCachePruner, PruneResult } from './PackageCachePruner';
+import { OSDetector } from '../../utils/OSDetector';
+
+/**
+ * Gradle's user home holds downloaded dependencies in
+ * caches/modules-2/files-2.1/<group>/<module>/<version>/, local build cache
+ * entries in caches/build-cache-1/, per-Gradle-version caches in
+ * caches/<version>/ and wrapper distributions in wrapper/dists/<dist>/<hash>/.
+ * Dependency versions are evicted as a whole and re-downloaded when Gradle
+ * finds them missing; the metadata indexes and lock files are never touched.
+ */
+export class GradleCachePruner extends PackageCachePruner {
+  readonly ecosystem = 'gradle';
+
+  getCacheRoots(): string[] {
+    return [process.env.GRADLE_USER_HOME || path.join(OSDetector.getHomeDirectory(), '.gradle')];
+  }
+
+  async prune(root: string, cutoff: number, evict: EvictFunction): Promise<PruneResult> {
+    const result: PruneResult = { itemsEvicted: 0, spaceSaved: 0 };
+    const cachesDir = path.join(root, 'caches');
+
+    // files-2.1/<group>/<module>/<version>
+    for (const groupDir of await this.listSubdirectories(path.join(cachesDir, 'modules-2', 'files-2.1'))) {
+      for (const moduleDir of await this.listSubdirectories(groupDir)) {
+        await this.evictUnused(await this.listSubdirectories(moduleDir), 'directory', cutoff, evict, result);
+      }
+    }
+
+    await this.evictUnused(await this.listFiles(path.join(cachesDir, 'build-cache-1')), 'file', cutoff, evict, result);
+
+    // Caches of Gradle versions no build has run with since the cutoff, e.g. caches/7.6
+    const versionCaches = (await this.listSubdirectories(cachesDir)).filter(dir => /^\d+\.\d+/.test(path.basename(dir)));
+    await this.evictUnused(versionCaches, 'directory', cutoff, evict, result);
+
+    for (const distDir of await this.listSubdirectories(path.join(root, 'wrapper', 'dists'))) {
+      await this.evictUnused(await this.listSubdirectories(distDir), 'directory', cutoff, evict, result);
+    }
+
+    return result;
+  }
+
+  private async evictUnused(paths: string[], type: 'file' | 'directory', cutoff: number, evict: EvictFunction, result: PruneResult): Promise<void> {
+    for (const targetPath of paths) {
+      const lastUsed = type === 'directory' ? await this.getNewestUse(targetPath, 2) : await this.getLastUsed(targetPath);
+
+      if (lastUsed < cutoff) {
+        await this.evictEntry([{ path: targetPath, type }], evict, result);
+      }
+    }
+  }
+}
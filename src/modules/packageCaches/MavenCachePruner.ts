@@ -0,0 +1,45 @@
+import * as path from 'path';
+import { EvictFunction, PackageCachePruner, PruneResult } from './PackageCachePruner';
+import { OSDetector } from '../../utils/OSDetector';
+
+/**
+ * The local Maven repository stores one directory per artifact version
+ * (<group path>/<artifact>/<version>/) holding its pom, jars, checksums and
+ * _remote.repositories. Whole version directories are evicted, so Maven never
+ * sees a pom without its jar; the maven-metadata files one level up only list
+ * versions and are rebuilt on the next resolve.
+ */
+export class MavenCachePruner extends PackageCachePruner {
+  readonly ecosystem = 'maven';
+
+  getCacheRoots(): string[] {
+    return [path.join(OSDetector.getHomeDirectory(), '.m2', 'repository')];
+  }
+
+  async prune(root: string, cutoff: number, evict: EvictFunction): Promise<PruneResult> {
+    const result: PruneResult = { itemsEvicted: 0, spaceSaved: 0 };
+
+    for (const versionDir of await this.findVersionDirectories(root)) {
+      if (await this.getNewestUse(versionDir, 0) < cutoff) {
+        await this.evictEntry([{ path: versionDir, type: 'directory' }], evict, result);
+      }
+    }
+
+    return result;
+  }
+
+  private async findVersionDirectories(dirPath: string): Promise<string[]> {
+    const files = await this.listFiles(dirPath);
+
+    if (files.some(file => file.endsWith('.pom') || file.endsWith('.jar') || path.basename(file) === '_remote.repositories')) {
+      return [dirPath];
+    }
+
+    const versionDirs: string[] = [];
+    for (const subdirectory of await this.listSubdirectories(dirPath)) {
+      versionDirs.push(...(await this.findVersionDirectories(subdirectory)));
+    }
+
+    return versionDirs;
+  }
+}
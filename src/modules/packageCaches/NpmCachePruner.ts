@@ -0,0 +1,115 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { EvictFunction, PackageCachePruner, PruneResult } from './PackageCachePruner';
+import { OSDetector } from '../../utils/OSDetector';
+
+interface IndexEntry {
+  key: string;
+  integrity: string | null; // null marks a deleted key
+  time: number;
+}
+
+/**
+ * npm's cacache: index-v5 buckets map request keys to content hashes, and
+ * content-v2 stores each body once under its hash. Old buckets are removed
+ * first, then only content that no remaining bucket points at, so npm never
+ * finds an index entry without its content.
+ */
+export class NpmCachePruner extends PackageCachePruner {
+  readonly ecosystem = 'npm';
+
+  getCacheRoots(): string[] {
+    if (process.env.npm_config_cache) {
+      return [path.join(process.env.npm_config_cache, '_cacache')];
+    }
+
+    if (OSDetector.isWindows()) {
+      return [path.join(process.env.LOCALAPPDATA || '', 'npm-cache', '_cacache')];
+    }
+
+    return [path.join(OSDetector.getHomeDirectory(), '.npm', '_cacache')];
+  }
+
+  async prune(root: string, cutoff: number, evict: EvictFunction): Promise<PruneResult> {
+    const result: PruneResult = { itemsEvicted: 0, spaceSaved: 0 };
+    const referenced = new Set<string>();
+
+    for (const bucket of await this.findFilesRecursive(path.join(root, 'index-v5'))) {
+      // Before reading it, which moves the atime
+      const lastUsed = await this.getLastUsed(bucket);
+      const entries = await this.readBucket(bucket);
+      const live = entries.filter(entry => entry.integrity !== null);
+
+      // Unreadable buckets are left for npm to deal with, and their content is kept
+      const isOld = entries.length > 0 && lastUsed < cutoff && live.every(entry => entry.time < cutoff);
+
+      if (!isOld || !(await this.evictEntry([{ path: bucket, type: 'file' }], evict, result))) {
+        live.forEach(entry => this.getContentPaths(root, entry.integrity!).forEach(contentPath => referenced.add(contentPath)));
+      }
+    }
+
+    for (const contentFile of await this.findFilesRecursive(path.join(root, 'content-v2'))) {
+      // Content written after the cutoff may belong to an install that is still running
+      if (!referenced.has(contentFile) && await this.getLastUsed(contentFile) < cutoff) {
+        await this.evictEntry([{ path: contentFile, type: 'file' }], evict, result);
+      }
+    }
+
+    return result;
+  }
+
+  // Each line is "<sha1 of json>\t<json>"; later lines for a key replace earlier ones
+  private async readBucket(bucketPath: string): Promise<IndexEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(bucketPath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const latest = new Map<string, IndexEntry>();
+
+    for (const line of content.split('\n')) {
+      const json = line.slice(line.indexOf('\t') + 1);
+      if (!line.includes('\t') || !json) continue;
+
+      try {
+        const entry = JSON.parse(json);
+        if (typeof entry.key === 'string') {
+          latest.set(entry.key, { key: entry.key, integrity: entry.integrity || null, time: entry.time || 0 });
+        }
+      } catch {
+        // Partially written line, npm skips these as well
+        continue;
+      }
+    }
+
+    return [...latest.values()];
+  }
+
+  // "sha512-<base64> sha1-<base64>" -> content-v2/sha512/ab/cd/<rest of hex digest>, one path per hash
+  private getContentPaths(root: string, integrity: string): string[] {
+    return integrity.split(/\s+/).filter(Boolean).map(hash => {
+      const separator = hash.indexOf('-');
+      const algorithm = hash.slice(0, separator);
+      const hex = Buffer.from(hash.slice(separator + 1).split('?')[0], 'base64').toString('hex');
+      return path.join(root, 'content-v2', algorithm, hex.slice(0, 2), hex.slice(2, 4), hex.slice(4));
+    });
+  }
+
+  private async findFilesRecursive(dirPath: string): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of await this.readDirectory(dirPath)) {
+      const entryPath = path.join(dirPath, entry.name);
+
+      if (entry.isDirectory()) {
+        files.push(...(await this.findFilesRecursive(entryPath)));
+      } else if (entry.isFile()) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+}
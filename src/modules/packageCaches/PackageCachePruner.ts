@@ -0,0 +1,99 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+// Deletes (or quarantines, journals and plans) one cache entry on behalf of a pruner
+export type EvictFunction = (targetPath: string, type: 'file' | 'directory') => Promise<{ deleted: boolean; size: number }>;
+
+export interface PruneResult {
+  itemsEvicted: number;
+  spaceSaved: number;
+}
+
+/**
+ * Knows the on-disk layout of one package manager cache and evicts whole
+ * entries that have not been used since the cutoff, in an order that keeps
+ * the cache readable by its tool: indexes before content, extracted copies
+ * before the archives they came from.
+ */
+export abstract class PackageCachePruner {
+  abstract readonly ecosystem: string;
+
+  constructor(
+    protected dryRun: boolean = false,
+    protected debug: boolean = false
+  ) {}
+
+  // Cache directories this pruner owns; other cleaners leave them alone
+  abstract getCacheRoots(): string[];
+
+  abstract prune(root: string, cutoff: number, evict: EvictFunction): Promise<PruneResult>;
+
+  // Most tools never record reads, so a file's atime (kept roughly current by relatime) is the best
+  // signal; a directory's atime also moves whenever it is listed, including by this scan
+  protected async getLastUsed(targetPath: string): Promise<number> {
+    try {
+      const stats = await fs.stat(targetPath);
+      return stats.isDirectory() ? stats.mtimeMs : Math.max(stats.atimeMs, stats.mtimeMs);
+    } catch {
+      return 0;
+    }
+  }
+
+  // Latest use of a directory or anything below it, down to maxDepth levels
+  protected async getNewestUse(dirPath: string, maxDepth: number = 3): Promise<number> {
+    let newest = await this.getLastUsed(dirPath);
+
+    if (maxDepth < 0) {
+      return newest;
+    }
+
+    for (const entry of await this.readDirectory(dirPath)) {
+      const entryPath = path.join(dirPath, entry.name);
+
+      if (entry.isDirectory()) {
+        newest = Math.max(newest, await this.getNewestUse(entryPath, maxDepth - 1));
+      } else {
+        newest = Math.max(newest, await this.getLastUsed(entryPath));
+      }
+    }
+
+    return newest;
+  }
+
+  protected async readDirectory(dirPath: string): Promise<fs.Dirent[]> {
+    try {
+      return await fs.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+  }
+
+  protected async listSubdirectories(dirPath: string): Promise<string[]> {
+    return (await this.readDirectory(dirPath))
+      .filter(entry => entry.isDirectory())
+      .map(entry => path.join(dirPath, entry.name));
+  }
+
+  protected async listFiles(dirPath: string): Promise<string[]> {
+    return (await this.readDirectory(dirPath))
+      .filter(entry => entry.isFile())
+      .map(entry => path.join(dirPath, entry.name));
+  }
+
+  // Evicts the parts of one cache entry in order and counts the entry once all parts are gone
+  protected async evictEntry(items: Array<{ path: string; type: 'file' | 'directory' }>, evict: EvictFunction, result: PruneResult): Promise<boolean> {
+    for (const item of items) {
+      const evicted = await evict(item.path, item.type);
+
+      // Later parts depend on the earlier ones being gone, so stop at the first failure
+      if (!evicted.deleted) {
+        return false;
+      }
+
+      result.spaceSaved += evicted.size;
+    }
+
+    result.itemsEvicted++;
+    return true;
+  }
+}
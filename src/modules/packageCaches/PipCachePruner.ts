@@ -0,0 +1,90 @@
+import * as path from 'path';
+import { EvictFunction, PackageCachePruner, PruneResult } from './PackageCachePruner';
+import { OSDetector } from '../../utils/OSDetector';
+
+/**
+ * pip keeps downloaded responses under http/ (http-v2/ since pip 23.3, where
+ * each response is a metadata file plus a separate .body file) and wheels it
+ * built from source under wheels/. Every entry is self-contained, so entries
+ * are evicted one by one.
+ */
+export class PipCachePruner extends PackageCachePruner {
+  readonly ecosystem = 'pip';
+
+  getCacheRoots(): string[] {
+    if (process.env.PIP_CACHE_DIR) {
+      return [process.env.PIP_CACHE_DIR];
+    }
+
+    const osType = OSDetector.getOS();
+    const homeDir = OSDetector.getHomeDirectory();
+
+    if (osType === 'windows') {
+      return [path.join(process.env.LOCALAPPDATA || '', 'pip', 'Cache')];
+    }
+
+    if (osType === 'macos') {
+      return [path.join(homeDir, 'Library', 'Caches', 'pip')];
+    }
+
+    return [path.join(process.env.XDG_CACHE_HOME || path.join(homeDir, '.cache'), 'pip')];
+  }
+
+  async prune(root: string, cutoff: number, evict: EvictFunction): Promise<PruneResult> {
+    const result: PruneResult = { itemsEvicted: 0, spaceSaved: 0 };
+
+    for (const httpDir of ['http', 'http-v2'].map(name => path.join(root, name))) {
+      await this.pruneHttpCache(httpDir, cutoff, evict, result);
+    }
+
+    await this.pruneWheels(path.join(root, 'wheels'), cutoff, evict, result);
+
+    return result;
+  }
+
+  private async pruneHttpCache(dirPath: string, cutoff: number, evict: EvictFunction, result: PruneResult): Promise<void> {
+    const files = await this.listFiles(dirPath);
+    const fileSet = new Set(files);
+
+    for (const file of files) {
+      if (file.endsWith('.body')) {
+        // Handled together with its metadata file, unless that one is already gone
+        if (fileSet.has(file.slice(0, -'.body'.length))) continue;
+
+        if (await this.getLastUsed(file) < cutoff) {
+          await this.evictEntry([{ path: file, type: 'file' }], evict, result);
+        }
+        continue;
+      }
+
+      const body = `${file}.body`;
+      const parts = fileSet.has(body) ? [file, body] : [file];
+      const lastUsed = Math.max(...(await Promise.all(parts.map(part => this.getLastUsed(part)))));
+
+      if (lastUsed < cutoff) {
+        // Metadata first: a body without metadata is ignored, metadata without a body is an error
+        await this.evictEntry(parts.map(part => ({ path: part, type: 'file' as const })), evict, result);
+      }
+    }
+
+    for (const subdirectory of await this.listSubdirectories(dirPath)) {
+      await this.pruneHttpCache(subdirectory, cutoff, evict, result);
+    }
+  }
+
+  // wheels/<aa>/<bb>/<cc>/<rest>/ holds the wheels built for one source link
+  private async pruneWheels(dirPath: string, cutoff: number, evict: EvictFunction, result: PruneResult): Promise<void> {
+    const files = await this.listFiles(dirPath);
+
+    if (files.some(file => file.endsWith('.whl'))) {
+      if (await this.getNewestUse(dirPath, 0) < cutoff) {
+        await this.evictEntry([{ path: dirPath, type: 'directory' }], evict, result);
+      }
+      return;
+    }
+
+    for (const subdirectory of await this.listSubdirectories(dirPath)) {
+      await this.pruneWheels(subdirectory, cutoff, evict, result);
+    }
+  }
+}
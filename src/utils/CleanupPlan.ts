@@ -0,0 +1,98 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface PlanEntry {
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  mtimeMs: number;
+  task: string;
+  rule: string;
+  root?: string;
+  quarantine?: boolean; // quarantined on apply even when backupBeforeDelete is off
+}
+
+export interface CleanupPlanFile {
+  version: number;
+  createdAt: string;
+  hostname: string;
+  platform: string;
+  entries: PlanEntry[];
+}
+
+const PLAN_VERSION = 1;
+
+export class CleanupPlan {
+  private entries: PlanEntry[] = [];
+  private seenPaths = new Set<string>();
+
+  // Records a deletion candidate; the task is filled in once the owning cleaner has finished
+  async add(filePath: string, type: 'file' | 'directory', size: number, rule: string, root?: string, quarantine: boolean = false): Promise<void> {
+    const absolutePath = path.resolve(filePath);
+
+    // Overlapping search roots can report the same path more than once
+    if (this.seenPaths.has(absolutePath)) {
+      return;
+    }
+
+    const stats = await fs.lstat(absolutePath);
+    this.seenPaths.add(absolutePath);
+
+    this.entries.push({
+      path: absolutePath,
+      type,
+      size,
+      mtimeMs: stats.mtimeMs,
+      task: '',
+      rule,
+      root,
+      quarantine: quarantine || undefined
+    });
+  }
+
+  assignTask(task: string): void {
+    for (const entry of this.entries) {
+      if (!entry.task) {
+        entry.task = task;
+      }
+    }
+  }
+
+  getEntries(): PlanEntry[] {
+    return [...this.entries];
+  }
+
+  getTotalSize(): number {
+    return this.entries.reduce((total, entry) => total + entry.size, 0);
+  }
+
+  toJSON(): CleanupPlanFile {
+    return {
+      version: PLAN_VERSION,
+      createdAt: new Date().toISOString(),
+      hostname: os.hostname(),
+      platform: os.platform(),
+      entries: this.entries
+    };
+  }
+
+  async save(planPath: string): Promise<void> {
+    await fs.ensureDir(path.dirname(planPath));
+    await fs.writeJson(planPath, this.toJSON(), { spaces: 2 });
+  }
+
+  static async load(planPath: string): Promise<CleanupPlanFile> {
+    const plan = await fs.readJson(planPath);
+
+    if (plan.version !== PLAN_VERSION || !Array.isArray(plan.entries)) {
+      throw new Error(`Unsupported cleanup plan format: ${planPath}`);
+    }
+
+    if (plan.hostname !== os.hostname()) {
+      throw new Error(`Cleanup plan was created on ${plan.hostname}, not on this machine`);
+    }
+
+    return plan;
+  }
+}
@@ -2,6 +2,30 @@ import * as fs from 'fs-extra';
 import * as path from 'path';
 import { OSDetector } from './OSDetector';
 
+export type RuleAction = 'delete' | 'quarantine' | 'move-to' | 'archive';
+
+export interface CleanupRule {
+  name: string;
+  paths: string[]; // roots the include globs are relative to, ~ expands to the home folder
+  include?: string[]; // defaults to every file below the roots
+  exclude?: string[];
+  minAgeDays?: number; // by modification time
+  minSize?: number; // in bytes
+  maxSize?: number; // in bytes
+  action: RuleAction;
+  destination?: string; // required for move-to, archive defaults to ~/.cleanmypc/archive/<rule>
+}
+
+export type BrowserId = 'chrome' | 'chromium' | 'edge' | 'brave' | 'vivaldi' | 'opera' | 'firefox' | 'firefoxEsr' | 'safari';
+
+export type DuplicateAction = 'keep-newest' | 'keep-oldest' | 'keep-by-path-priority' | 'hardlink';
+
+export interface WatchStage {
+  name: string;
+  tasks: string[]; // task ids or flag names
+  maxFileAge?: number; // replaces maxFileAge for this stage
+}
+
 export interface CleanupConfig {
   // File size thresholds
   largeFileThreshold: number; // in bytes (default: 1GB)
@@ -11,13 +35,64 @@ export interface CleanupConfig {
   customCachePaths: string[];
   downloadsPath: string;
   exclusions: string[];
+  plugins: string[]; // npm packages or .js files exporting additional cleaners
+  rules: CleanupRule[]; // declarative cleanups run by the rules task
+  
+  // Package manager caches
+  packageCaches: {
+    maxAgeDays: number; // entries not used for this long are evicted
+    ecosystems: string[]; // npm, pip, cargo, go, maven, gradle
+  };
+  
+  // Trash (Linux)
+  trash: {
+    retentionDays: number; // the trash task only empties items deleted longer ago than this, 0 empties everything
+  };
+  
+  // System logs (Linux)
+  logs: {
+    paths: string[]; // log directories, rotated files below them are candidates
+    keepRotations: number; // newest rotated files kept per log, e.g. syslog.1 and syslog.2.gz
+    journalMaxSize: number; // in bytes, archived systemd journals are removed above this, 0 disables
+  };
+  
+  // Duplicate files
+  duplicates: {
+    paths: string[]; // folders searched for duplicates, Downloads, Pictures and Documents when empty
+    minSize: number; // in bytes, smaller files are ignored
+    action: DuplicateAction | 'report'; // what --duplicates does without interactive selection
+    pathPriority: string[]; // keep-by-path-priority keeps the copy under the earliest listed folder
+  };
+  
+  // Developer artifacts
+  devArtifacts: {
+    workspaces: string[]; // folders searched for project roots, nothing is searched when empty
+    staleDays: number; // projects without commits or edits for this long are stale
+    maxDepth: number; // how deep below a workspace project roots are looked for
+  };
   
   // Browser configuration
   browsers: {
     chrome: boolean;
-    firefox: boolean;
+    chromium: boolean;
     edge: boolean;
+    brave: boolean;
+    vivaldi: boolean;
+    opera: boolean;
+    firefox: boolean;
+    firefoxEsr: boolean;
     safari: boolean;
+    profiles: string[]; // browser:profile pairs to clean (profile folder or name, * for all), every profile when empty
+    waitForClose: boolean; // wait for running browsers to exit instead of skipping their profiles
+    waitTimeout: number; // seconds to wait before giving up and skipping
+  };
+  
+  // History, cookies and site data of the browser profiles selected above
+  browserData: {
+    historyDays: number; // history older than this is deleted, 0 leaves history alone
+    cookies: boolean; // delete cookies of every site not in keepDomains
+    siteData: boolean; // delete IndexedDB, Local Storage and Service Worker caches of sites not in keepDomains
+    keepDomains: string[]; // subdomains are kept too
   };
   
   // Downloads organization
@@ -30,8 +105,25 @@ export interface CleanupConfig {
   
   // Safety settings
   confirmDeletions: boolean;
-  backupBeforeDelete: boolean;
+  backupBeforeDelete: boolean; // move deletions into ~/.cleanmypc/quarantine instead of removing them
+  quarantineRetentionDays: number; // quarantined runs older than this are purged, 0 keeps them forever
   maxFileAge: number; // in days, 0 means no age limit
+  
+  // Low disk space watchdog (cleanmypc watch)
+  watch: {
+    paths: string[]; // the filesystems holding these paths are watched, the home folder's when empty
+    intervalSeconds: number;
+    threshold: string; // cleanup starts when free space drops below this, e.g. 10% or 5GB
+    target: string; // and stops as soon as this much is free again
+    stages: WatchStage[]; // run in order, each one only when the previous did not reach the target
+  };
+  
+  // Performance
+  scanConcurrency: number; // filesystem calls the shared walker keeps in flight
+  scanIndex: boolean; // remember directory listings in ~/.cleanmypc/index for large file, duplicate and du scans
+  
+  // Named sets of settings applied over the rest of the config with --profile
+  profiles: { [name: string]: Partial<CleanupConfig> };
 }
 
 export class ConfigManager {
@@ -67,11 +159,50 @@ export class ConfigManager {
       customCachePaths: [],
       downloadsPath,
       exclusions: [],
+      plugins: [],
+      rules: [],
+      packageCaches: {
+        maxAgeDays: 90,
+        ecosystems: ['npm', 'pip', 'cargo', 'go', 'maven', 'gradle']
+      },
+      trash: {
+        retentionDays: 0
+      },
+      logs: {
+        paths: ['/var/log'],
+        keepRotations: 2,
+        journalMaxSize: 512 * 1024 * 1024 // 512MB
+      },
+      duplicates: {
+        paths: [],
+        minSize: 1024 * 1024, // 1MB
+        action: 'report',
+        pathPriority: []
+      },
+      devArtifacts: {
+        workspaces: [],
+        staleDays: 90,
+        maxDepth: 4
+      },
       browsers: {
         chrome: true,
-        firefox: true,
+        chromium: true,
         edge: true,
-        safari: osType === 'macos'
+        brave: true,
+        vivaldi: true,
+        opera: true,
+        firefox: true,
+        firefoxEsr: true,
+        safari: osType === 'macos',
+        profiles: [],
+        waitForClose: false,
+        waitTimeout: 300
+      },
+      browserData: {
+        historyDays: 0,
+        cookies: false,
+        siteData: false,
+        keepDomains: []
       },
       organizeDownloads: {
         enabled: true,
@@ -89,7 +220,27 @@ export class ConfigManager {
       },
       confirmDeletions: true,
       backupBeforeDelete: false,
-      maxFileAge: 0 // No age limit by default
+      quarantineRetentionDays: 30,
+      maxFileAge: 0, // No age limit by default
+      watch: {
+        paths: [],
+        intervalSeconds: 300,
+        threshold: '10%',
+        target: '15%',
+        stages: [
+          { name: 'Safe caches', tasks: ['cache', 'browsers', 'packageCaches'] },
+          { name: 'Trash', tasks: ['trash'] },
+          { name: 'Old temporary files', tasks: ['temp'], maxFileAge: 7 }
+        ]
+      },
+      scanConcurrency: 16,
+      scanIndex: true,
+      profiles: {
+        safe: {
+          backupBeforeDelete: true,
+          maxFileAge: 7
+        }
+      }
     };
   }
 
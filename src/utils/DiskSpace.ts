@@ -0,0 +1,48 @@
+import { statfs } from 'fs/promises';
+
+export interface SpaceUsage {
+  total: number;
+  available: number; // free space usable by unprivileged users, excluding blocks reserved for root
+}
+
+const UNITS: { [unit: string]: number } = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4
+};
+
+// Free space of the filesystem holding a path, through statfs(2)
+export class DiskSpace {
+  static async measure(targetPath: string): Promise<SpaceUsage> {
+    const stats = await statfs(targetPath);
+
+    return {
+      total: stats.blocks * stats.bsize,
+      available: stats.bavail * stats.bsize
+    };
+  }
+
+  /**
+   * Reads an amount of space given as a percentage of the filesystem
+   * ("10%") or as a size ("5GB", "500 MB", "1024"), in bytes.
+   */
+  static parseAmount(value: string | number, total: number): number {
+    if (typeof value === 'number') {
+      return value;
+    }
+
+    const percentage = value.trim().match(/^(\d+(?:\.\d+)?)\s*%$/);
+    if (percentage) {
+      return Math.floor(total * parseFloat(percentage[1]) / 100);
+    }
+
+    const size = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/);
+    if (!size) {
+      throw new Error(`Invalid amount of space "${value}", expected a percentage like 10% or a size like 5GB`);
+    }
+
+    return Math.floor(parseFloat(size[1]) * UNITS[size[2] || 'b']);
+  }
+}
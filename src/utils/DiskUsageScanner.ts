@@ -0,0 +1,121 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { EntryStats } from './FileWalker';
+import { ScanIndex } from './ScanIndex';
+
+export interface DiskUsageNode {
+  name: string;
+  path: string;
+  size: number; // everything below this directory
+  files: number;
+  ownSize: number; // files directly inside this directory
+  ownFiles: number;
+  children: DiskUsageNode[];
+}
+
+export interface DiskUsageScan {
+  root: DiskUsageNode;
+  errors: string[];
+}
+
+export type DiskUsageSort = 'size' | 'name' | 'files';
+
+// Builds a size tree of a directory; sizes are apparent file sizes like everywhere else in cleanmypc
+export class DiskUsageScanner {
+  private errors: string[] = [];
+  private seenInodes = new Set<string>();
+  private rootDevice = 0;
+
+  // With an index, directories that did not change since the last scan are not read again
+  constructor(private index?: ScanIndex) {}
+
+  async scan(rootPath: string): Promise<DiskUsageScan> {
+    this.errors = [];
+    this.seenInodes.clear();
+
+    const absolutePath = path.resolve(rootPath);
+    const stats = await fs.stat(absolutePath);
+
+    if (!stats.isDirectory()) {
+      throw new Error(`${absolutePath} is not a directory`);
+    }
+
+    this.rootDevice = stats.dev;
+    const root = await this.scanDirectory(absolutePath);
+
+    return { root, errors: this.errors };
+  }
+
+  static sortChildren(node: DiskUsageNode, sort: DiskUsageSort): DiskUsageNode[] {
+    const children = [...node.children];
+
+    switch (sort) {
+      case 'name':
+        return children.sort((a, b) => a.name.localeCompare(b.name));
+      case 'files':
+        return children.sort((a, b) => b.files - a.files || b.size - a.size);
+      case 'size':
+      default:
+        return children.sort((a, b) => b.size - a.size || a.name.localeCompare(b.name));
+    }
+  }
+
+  private async scanDirectory(dirPath: string): Promise<DiskUsageNode> {
+    const node: DiskUsageNode = {
+      name: path.basename(dirPath) || dirPath,
+      path: dirPath,
+      size: 0,
+      files: 0,
+      ownSize: 0,
+      ownFiles: 0,
+      children: []
+    };
+
+    let items: Array<{ name: string; stats?: EntryStats }>;
+    try {
+      items = this.index
+        ? (await this.index.readDirectory(dirPath)).entries
+        : (await fs.readdir(dirPath)).map(name => ({ name }));
+    } catch (error) {
+      this.errors.push(`Cannot read ${dirPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return node;
+    }
+
+    for (const item of items) {
+      const itemPath = path.join(dirPath, item.name);
+
+      try {
+        // Symlinks are counted as links, never followed
+        const stats = item.stats || await fs.lstat(itemPath);
+
+        if (stats.isDirectory()) {
+          // Other mounts (network shares, /proc, external drives) are not part of this disk
+          if (stats.dev !== this.rootDevice) continue;
+
+          const child = await this.scanDirectory(itemPath);
+          node.children.push(child);
+          node.size += child.size;
+          node.files += child.files;
+          continue;
+        }
+
+        // Hardlinked files take up space once
+        if (stats.nlink > 1) {
+          const inode = `${stats.dev}:${stats.ino}`;
+          if (this.seenInodes.has(inode)) continue;
+          this.seenInodes.add(inode);
+        }
+
+        node.ownSize += stats.size;
+        node.ownFiles++;
+      } catch (error) {
+        this.errors.push(`Cannot stat ${itemPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    node.size += node.ownSize;
+    node.files += node.ownFiles;
+
+    return node;
+  }
+}
@@ -0,0 +1,202 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import micromatch from 'micromatch';
+import { OSDetector } from './OSDetector';
+
+export const IGNORE_FILE_NAME = '.cleanmypcignore';
+
+interface ExclusionRule {
+  pattern: string;
+  regex: RegExp;
+  base: string | null; // directory the pattern is anchored to, null when it is not anchored
+  anyDepth: boolean; // unanchored pattern containing a slash, matched against the whole path
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Gitignore-style exclusions shared by every cleaner.
+ *
+ * Rules come from config.exclusions first and then from every .cleanmypcignore
+ * between the filesystem root and the path, so deeper files win. The last
+ * matching rule decides, `!` re-includes, a trailing `/` only matches
+ * directories, and anything below an excluded directory stays excluded.
+ */
+export class ExclusionMatcher {
+  private configRules: ExclusionRule[];
+  private directoryRules = new Map<string, Promise<ExclusionRule[]>>();
+  private excludedDirectories = new Map<string, Promise<boolean>>();
+
+  constructor(exclusions: string[] = []) {
+    this.configRules = exclusions
+      .map(pattern => this.parseRule(pattern, null))
+      .filter((rule): rule is ExclusionRule => rule !== null);
+  }
+
+  async isExcluded(targetPath: string, isDirectory: boolean = false): Promise<boolean> {
+    const absolutePath = path.resolve(targetPath);
+    const parent = path.dirname(absolutePath);
+
+    if (parent !== absolutePath && await this.isDirectoryExcluded(parent)) {
+      return true;
+    }
+
+    if (isDirectory) {
+      return this.isDirectoryExcluded(absolutePath);
+    }
+
+    return this.matches(absolutePath, false, await this.getRulesFor(parent));
+  }
+
+  async filter(paths: string[], isDirectory: boolean = false): Promise<string[]> {
+    const kept: string[] = [];
+
+    for (const candidate of paths) {
+      if (!(await this.isExcluded(candidate, isDirectory))) {
+        kept.push(candidate);
+      }
+    }
+
+    return kept;
+  }
+
+  private isDirectoryExcluded(dirPath: string): Promise<boolean> {
+    let result = this.excludedDirectories.get(dirPath);
+
+    if (!result) {
+      result = (async () => {
+        const parent = path.dirname(dirPath);
+
+        if (parent === dirPath) {
+          return false;
+        }
+
+        if (await this.isDirectoryExcluded(parent)) {
+          return true;
+        }
+
+        return this.matches(dirPath, true, await this.getRulesFor(parent));
+      })();
+
+      this.excludedDirectories.set(dirPath, result);
+    }
+
+    return result;
+  }
+
+  private matches(absolutePath: string, isDirectory: boolean, rules: ExclusionRule[]): boolean {
+    let excluded = false;
+    const name = path.basename(absolutePath);
+
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+
+      let subject = name;
+      if (rule.anyDepth) {
+        subject = absolutePath.slice(path.parse(absolutePath).root.length).replace(/\\/g, '/');
+      } else if (rule.base !== null) {
+        const relative = path.relative(rule.base, absolutePath);
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+        subject = relative.replace(/\\/g, '/');
+      }
+
+      if (rule.regex.test(subject)) {
+        excluded = !rule.negate;
+      }
+    }
+
+    return excluded;
+  }
+
+  // Config rules followed by the rules of every ignore file from the root down to dirPath
+  private getRulesFor(dirPath: string): Promise<ExclusionRule[]> {
+    let rules = this.directoryRules.get(dirPath);
+
+    if (!rules) {
+      rules = (async () => {
+        const parent = path.dirname(dirPath);
+        const inherited = parent === dirPath ? this.configRules : await this.getRulesFor(parent);
+        const own = await this.readIgnoreFile(dirPath);
+        return own.length > 0 ? [...inherited, ...own] : inherited;
+      })();
+
+      this.directoryRules.set(dirPath, rules);
+    }
+
+    return rules;
+  }
+
+  private async readIgnoreFile(dirPath: string): Promise<ExclusionRule[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(dirPath, IGNORE_FILE_NAME), 'utf8');
+    } catch {
+      return [];
+    }
+
+    return content
+      .split(/\r?\n/)
+      .map(line => this.parseRule(line, dirPath))
+      .filter((rule): rule is ExclusionRule => rule !== null);
+  }
+
+  private parseRule(line: string, base: string | null): ExclusionRule | null {
+    let pattern = line.replace(/\\/g, '/').trim();
+
+    if (!pattern || pattern.startsWith('#')) {
+      return null;
+    }
+
+    let negate = false;
+    if (pattern.startsWith('!')) {
+      negate = true;
+      pattern = pattern.slice(1);
+    }
+
+    let directoryOnly = false;
+    if (pattern.endsWith('/')) {
+      directoryOnly = true;
+      pattern = pattern.replace(/\/+$/, '');
+    }
+
+    // A leading slash in an ignore file anchors to that file; in config it is an absolute path
+    let absolute = base === null && pattern.startsWith('/');
+
+    if (pattern === '~' || pattern.startsWith('~/')) {
+      pattern = OSDetector.getHomeDirectory().replace(/\\/g, '/') + pattern.slice(1);
+      absolute = true;
+    }
+
+    let ruleBase: string | null = null;
+    let anyDepth = false;
+
+    if (absolute || /^[a-zA-Z]:\//.test(pattern)) {
+      // Absolute patterns are anchored to the filesystem root (or drive) they name
+      const root = path.parse(pattern).root || '/';
+      ruleBase = path.resolve(root);
+      pattern = pattern.slice(root.length).replace(/^\/+/, '');
+    } else if (pattern.startsWith('/') || pattern.includes('/')) {
+      // Relative to the ignore file's directory; config rules have no directory, so they match at any depth
+      pattern = pattern.replace(/^\/+/, '');
+      if (base !== null) {
+        ruleBase = base;
+      } else {
+        pattern = `**/${pattern}`;
+        anyDepth = true;
+      }
+    }
+
+    if (!pattern) {
+      return null;
+    }
+
+    return {
+      pattern: line.trim(),
+      regex: micromatch.makeRe(pattern, { dot: true, nocase: !OSDetector.isLinux() }),
+      base: ruleBase,
+      anyDepth,
+      negate,
+      directoryOnly
+    };
+  }
+}
@@ -0,0 +1,120 @@
+import { OSDetector } from './OSDetector';
+import { ExclusionMatcher } from './ExclusionMatcher';
+import { EntryStats, FileWalker, WalkEntry } from './FileWalker';
+
+export type FileVisitor = (filePath: string, stats: EntryStats) => void | Promise<void>;
+
+// Recursive walk over user folders that skips hidden entries, system folders and exclusions
+export class FileTraverser {
+  constructor(
+    private exclusions: ExclusionMatcher,
+    private walker: FileWalker,
+    private maxDepth: number = 10
+  ) {}
+
+  async traverse(dirPath: string, visit: FileVisitor): Promise<void> {
+    // Limit recursion depth to avoid infinite loops and performance issues
+    const entries = await this.walker.walk(dirPath, {
+      maxDepth: this.maxDepth + 1,
+      indexed: true,
+      descend: entry => this.isIncluded(entry)
+    });
+
+    for (const entry of entries) {
+      if (entry.stats.isFile() && await this.isIncluded(entry)) {
+        await visit(entry.path, entry.stats);
+      }
+    }
+  }
+
+  private async isIncluded(entry: WalkEntry): Promise<boolean> {
+    // Skip system and hidden files/directories
+    if (this.shouldSkipPath(entry.path, entry.name)) {
+      return false;
+    }
+
+    // config.exclusions and .cleanmypcignore files
+    return !(await this.exclusions.isExcluded(entry.path, entry.stats.isDirectory()));
+  }
+
+  private shouldSkipPath(fullPath: string, itemName: string): boolean {
+    const osType = OSDetector.getOS();
+
+    // Skip hidden files and directories
+    if (itemName.startsWith('.')) {
+      return true;
+    }
+
+    // Skip system directories by name
+    const systemDirs = [
+      'System Volume Information',
+      '$RECYCLE.BIN',
+      'Windows',
+      'Program Files',
+      'Program Files (x86)',
+      'ProgramData',
+      'AppData',
+      'node_modules',
+      '.git',
+      '.svn',
+      '.hg'
+    ];
+
+    if (systemDirs.includes(itemName)) {
+      return true;
+    }
+
+    // OS-specific system paths to skip
+    if (osType === 'windows') {
+      const windowsSkipPaths = [
+        'C:\\Windows',
+        'C:\\Program Files',
+        'C:\\Program Files (x86)',
+        'C:\\ProgramData'
+      ];
+
+      for (const skipPath of windowsSkipPaths) {
+        if (fullPath.toLowerCase().startsWith(skipPath.toLowerCase())) {
+          return true;
+        }
+      }
+    } else if (osType === 'macos') {
+      const macosSkipPaths = [
+        '/System',
+        '/Library/System',
+        '/usr/bin',
+        '/usr/sbin',
+        '/bin',
+        '/sbin'
+      ];
+
+      for (const skipPath of macosSkipPaths) {
+        if (fullPath.startsWith(skipPath)) {
+          return true;
+        }
+      }
+    } else {
+      const linuxSkipPaths = [
+        '/bin',
+        '/sbin',
+        '/usr/bin',
+        '/usr/sbin',
+        '/lib',
+        '/lib64',
+        '/usr/lib',
+        '/usr/lib64',
+        '/sys',
+        '/proc',
+        '/dev'
+      ];
+
+      for (const skipPath of linuxSkipPaths) {
+        if (fullPath.startsWith(skipPath)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,237 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ScanIndex } from './ScanIndex';
+
+// The parts of fs.Stats cleaners rely on; scan index entries provide them without a stat call
+export interface EntryStats {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+  dev: number;
+  nlink: number;
+  blocks: number; // 512-byte blocks allocated, smaller than size for sparse files
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}
+
+export interface WalkEntry {
+  path: string;
+  name: string;
+  stats: EntryStats; // lstat, symlinks are never followed
+}
+
+export interface WalkOptions {
+  maxDepth?: number; // 1 returns only the direct children of the root
+  descend?: (entry: WalkEntry) => boolean | Promise<boolean>;
+  indexed?: boolean; // take listings from the persistent scan index, for reports only
+}
+
+export interface WalkerStats {
+  entriesVisited: number; // entries handed to cleaners, cached or not
+  statCalls: number; // lstat calls that actually reached the filesystem
+  directoriesRead: number;
+  directoriesFromIndex: number;
+}
+
+type Listing = Map<string, WalkEntry> | null;
+
+interface WalkedDirectory {
+  children: WalkEntry[];
+  nested: Array<WalkedDirectory | null>;
+}
+
+const DEFAULT_CONCURRENCY = 16;
+
+/**
+ * Run-wide directory walker shared by all cleaners. Every directory is read
+ * and every entry stat-ed at most once per run, with a bounded number of
+ * filesystem calls in flight, so tasks scanning the same locations (temp and
+ * cache both walk /tmp and ~/.cache) reuse each other's work. Deletions made
+ * through BaseCleaner are forgotten again, so later tasks never see them.
+ */
+export class FileWalker {
+  private listings = new Map<string, Promise<Listing>>();
+  // Index listings can be stale, so they are kept apart from the ones deletions are based on
+  private indexedListings = new Map<string, Promise<Listing>>();
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private stats: WalkerStats = { entriesVisited: 0, statCalls: 0, directoriesRead: 0, directoriesFromIndex: 0 };
+
+  constructor(
+    private concurrency: number = DEFAULT_CONCURRENCY,
+    private index?: ScanIndex
+  ) {}
+
+  // Direct children of a directory, empty when it cannot be read
+  async list(dirPath: string, indexed: boolean = false): Promise<WalkEntry[]> {
+    const listing = await this.getListing(path.resolve(dirPath), indexed && this.index !== undefined);
+    const entries = listing ? [...listing.values()] : [];
+
+    this.stats.entriesVisited += entries.length;
+    return entries;
+  }
+
+  // Every entry below root in pre-order, a directory before its contents
+  async walk(root: string, options: WalkOptions = {}): Promise<WalkEntry[]> {
+    const entries: WalkEntry[] = [];
+    this.flatten(await this.walkDirectory(path.resolve(root), 1, options), entries);
+    return entries;
+  }
+
+  // Stats of a single path, taken from the walk when it already reached it
+  async stat(targetPath: string): Promise<EntryStats | null> {
+    const absolutePath = path.resolve(targetPath);
+    const listing = await this.listings.get(path.dirname(absolutePath));
+    const entry = listing?.get(path.basename(absolutePath));
+
+    this.stats.entriesVisited++;
+
+    if (entry) {
+      return entry.stats;
+    }
+
+    try {
+      this.stats.statCalls++;
+      return await this.limit(() => fs.lstat(absolutePath));
+    } catch {
+      return null;
+    }
+  }
+
+  // Drops a removed path, and everything below it, from the cache
+  async forget(targetPath: string): Promise<void> {
+    const absolutePath = path.resolve(targetPath);
+    const listing = await this.listings.get(path.dirname(absolutePath));
+    const entry = listing?.get(path.basename(absolutePath));
+
+    listing?.delete(path.basename(absolutePath));
+    (await this.indexedListings.get(path.dirname(absolutePath)))?.delete(path.basename(absolutePath));
+
+    // Only directories have listings of their own
+    if (!entry || entry.stats.isDirectory()) {
+      this.invalidate(absolutePath);
+    }
+  }
+
+  // Makes the next walk read a directory again, e.g. after files were added to it
+  invalidate(dirPath: string): void {
+    const absolutePath = path.resolve(dirPath);
+    const prefix = absolutePath.endsWith(path.sep) ? absolutePath : absolutePath + path.sep;
+
+    for (const listings of [this.listings, this.indexedListings]) {
+      for (const cachedPath of [...listings.keys()]) {
+        if (cachedPath === absolutePath || cachedPath.startsWith(prefix)) {
+          listings.delete(cachedPath);
+        }
+      }
+    }
+  }
+
+  getStats(): WalkerStats {
+    return { ...this.stats };
+  }
+
+  private async walkDirectory(dirPath: string, depth: number, options: WalkOptions): Promise<WalkedDirectory> {
+    const children = await this.list(dirPath, options.indexed);
+
+    // Subdirectories are walked side by side; limit() bounds how many are read at once
+    const nested = await Promise.all(children.map(async child => {
+      if (!child.stats.isDirectory()) return null;
+      if (options.maxDepth !== undefined && depth >= options.maxDepth) return null;
+      if (options.descend && !(await options.descend(child))) return null;
+
+      return this.walkDirectory(child.path, depth + 1, options);
+    }));
+
+    return { children, nested };
+  }
+
+  private flatten(directory: WalkedDirectory, entries: WalkEntry[]): void {
+    directory.children.forEach((child, index) => {
+      entries.push(child);
+
+      const nested = directory.nested[index];
+      if (nested) this.flatten(nested, entries);
+    });
+  }
+
+  private getListing(dirPath: string, indexed: boolean): Promise<Listing> {
+    const listings = indexed ? this.indexedListings : this.listings;
+    let listing = listings.get(dirPath);
+
+    if (!listing) {
+      // One slot per directory: its entries are stat-ed back to back, which beats a promise per entry
+      listing = this.limit(() => indexed ? this.readIndexedDirectory(dirPath) : this.readDirectory(dirPath));
+      listings.set(dirPath, listing);
+    }
+
+    return listing;
+  }
+
+  private async readIndexedDirectory(dirPath: string): Promise<Listing> {
+    try {
+      const { entries, reused } = await this.index!.readDirectory(dirPath);
+
+      // An unchanged directory costs a single stat of itself
+      this.stats.statCalls += reused ? 1 : entries.length + 1;
+      if (reused) {
+        this.stats.directoriesFromIndex++;
+      } else {
+        this.stats.directoriesRead++;
+      }
+
+      return new Map(entries.map(entry => [entry.name, entry]));
+    } catch {
+      return null;
+    }
+  }
+
+  private async readDirectory(dirPath: string): Promise<Listing> {
+    let names: string[];
+
+    try {
+      this.stats.directoriesRead++;
+      names = await fs.readdir(dirPath);
+    } catch {
+      // Missing or unreadable directories have no entries
+      return null;
+    }
+
+    const listing = new Map<string, WalkEntry>();
+
+    for (const name of names) {
+      const entryPath = path.join(dirPath, name);
+
+      try {
+        this.stats.statCalls++;
+        listing.set(name, { path: entryPath, name, stats: await fs.lstat(entryPath) });
+      } catch {
+        // Removed between readdir and lstat
+        continue;
+      }
+    }
+
+    return listing;
+  }
+
+  private async limit<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      // The slot is handed over by the finishing operation below
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await operation();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
@@ -1,27 +1,34 @@
 import chalk from 'chalk';
+import * as fs from 'fs-extra';
+import { stripVTControlCharacters } from 'util';
 
 export class Logger {
-  constructor(private silent: boolean = false) {}
+  // logFile receives every message, silent or not, without colors (used by scheduled runs)
+  constructor(private silent: boolean = false, private logFile?: string) {}
 
   info(message: string): void {
+    this.writeToFile('INFO', message);
     if (!this.silent) {
       console.log(message);
     }
   }
 
   success(message: string): void {
+    this.writeToFile('INFO', message);
     if (!this.silent) {
       console.log(chalk.green(message));
     }
   }
 
   warn(message: string): void {
+    this.writeToFile('WARN', message);
     if (!this.silent) {
       console.warn(chalk.yellow(message));
     }
   }
 
   error(message: string): void {
+    this.writeToFile('ERROR', message);
     // Always show errors, even in silent mode
     console.error(chalk.red(message));
   }
@@ -35,4 +42,13 @@ export class Logger {
   log(message: string): void {
     this.info(message);
   }
+
+  private writeToFile(level: string, message: string): void {
+    if (!this.logFile) return;
+
+    // Synchronous so the log is complete even when the process exits right after
+    const lines = stripVTControlCharacters(message).split('\n').map(line => `${new Date().toISOString()} ${level} ${line}`);
+    fs.ensureFileSync(this.logFile);
+    fs.appendFileSync(this.logFile, lines.join('\n') + '\n');
+  }
 }
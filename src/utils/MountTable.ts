@@ -0,0 +1,79 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export interface MountInfo {
+  mountPoint: string;
+  fsType: string;
+  source: string; // device or remote share, e.g. /dev/sdb1
+  device: string; // major:minor
+}
+
+const MOUNT_INFO_PATH = '/proc/self/mountinfo';
+
+// Kernel and virtual filesystems that never hold user files
+const VIRTUAL_FS_TYPES = new Set([
+  'proc', 'sysfs', 'devtmpfs', 'devpts', 'cgroup', 'cgroup2', 'securityfs', 'pstore', 'debugfs',
+  'tracefs', 'configfs', 'fusectl', 'mqueue', 'hugetlbfs', 'bpf', 'binfmt_misc', 'autofs',
+  'efivarfs', 'nsfs', 'rpc_pipefs', 'squashfs'
+]);
+
+// Mounted filesystems of the current process, read from /proc/self/mountinfo (Linux only)
+export class MountTable {
+  static async read(mountInfoPath: string = MOUNT_INFO_PATH): Promise<MountInfo[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(mountInfoPath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    // A later mount on the same point hides the earlier one
+    const mounts = new Map<string, MountInfo>();
+
+    for (const line of content.split('\n')) {
+      const mount = MountTable.parseLine(line);
+      if (mount) {
+        mounts.delete(mount.mountPoint);
+        mounts.set(mount.mountPoint, mount);
+      }
+    }
+
+    return [...mounts.values()];
+  }
+
+  // Filesystems that can hold user files, leaving out /proc, /sys, cgroups, snap images and the like
+  static async readStorage(mountInfoPath?: string): Promise<MountInfo[]> {
+    return (await MountTable.read(mountInfoPath)).filter(mount => !VIRTUAL_FS_TYPES.has(mount.fsType));
+  }
+
+  // The mount a path lives on: the one with the longest mount point containing it
+  static findMount(targetPath: string, mounts: MountInfo[]): MountInfo | undefined {
+    const absolutePath = path.resolve(targetPath);
+
+    return mounts
+      .filter(mount => absolutePath === mount.mountPoint || absolutePath.startsWith(mount.mountPoint === '/' ? '/' : mount.mountPoint + '/'))
+      .sort((a, b) => b.mountPoint.length - a.mountPoint.length)[0];
+  }
+
+  // id parent major:minor root mount-point options [optional fields...] - fstype source super-options
+  static parseLine(line: string): MountInfo | null {
+    const separator = line.indexOf(' - ');
+    if (separator === -1) return null;
+
+    const fields = line.slice(0, separator).split(' ');
+    const [fsType, source] = line.slice(separator + 3).split(' ');
+    if (fields.length < 5 || !fsType) return null;
+
+    return {
+      mountPoint: MountTable.unescape(fields[4]),
+      fsType,
+      source: MountTable.unescape(source || ''),
+      device: fields[2]
+    };
+  }
+
+  // Spaces, tabs, newlines and backslashes are written as octal escapes (\040)
+  private static unescape(value: string): string {
+    return value.replace(/\\([0-7]{3})/g, (_, octal: string) => String.fromCharCode(parseInt(octal, 8)));
+  }
+}
@@ -1,7 +1,10 @@
 import * as os from 'os';
+import * as path from 'path';
+
+export type OSType = 'windows' | 'macos' | 'linux';
 
 export class OSDetector {
-  static getOS(): 'windows' | 'macos' | 'linux' {
+  static getOS(): OSType {
     const platform = os.platform();
     
     switch (platform) {
@@ -35,4 +38,13 @@ export class OSDetector {
   static getTempDirectory(): string {
     return os.tmpdir();
   }
+
+  // Paths in the config file may start with ~ for the home directory
+  static expandHome(targetPath: string): string {
+    if (targetPath === '~' || targetPath.startsWith('~/') || targetPath.startsWith('~\\')) {
+      return path.join(this.getHomeDirectory(), targetPath.slice(1));
+    }
+
+    return targetPath;
+  }
 }
@@ -0,0 +1,91 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OSDetector } from './OSDetector';
+
+export class OpenFileDetector {
+  private snapshot?: Promise<Set<string>>;
+
+  // The snapshot is taken once per run, the first time a cleaner asks
+  async isOpen(filePath: string): Promise<boolean> {
+    if (!this.snapshot) {
+      this.snapshot = OSDetector.isLinux() ? this.collectOpenPaths() : Promise.resolve(new Set<string>());
+    }
+
+    const openPaths = await this.snapshot;
+    return openPaths.has(path.resolve(filePath));
+  }
+
+  // Walks /proc/<pid>/fd, /proc/<pid>/maps and /proc/<pid>/cwd of every process we are allowed to read
+  private async collectOpenPaths(): Promise<Set<string>> {
+    const openPaths = new Set<string>();
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir('/proc');
+    } catch {
+      return openPaths;
+    }
+
+    for (const pid of entries.filter(entry => /^\d+$/.test(entry))) {
+      const procDir = path.join('/proc', pid);
+
+      await this.collectFileDescriptors(procDir, openPaths);
+      await this.collectMappedFiles(procDir, openPaths);
+
+      const cwd = await this.readLink(path.join(procDir, 'cwd'));
+      if (cwd) {
+        openPaths.add(cwd);
+      }
+    }
+
+    return openPaths;
+  }
+
+  private async collectFileDescriptors(procDir: string, openPaths: Set<string>): Promise<void> {
+    let descriptors: string[];
+    try {
+      descriptors = await fs.readdir(path.join(procDir, 'fd'));
+    } catch {
+      // Process exited or belongs to another user
+      return;
+    }
+
+    for (const descriptor of descriptors) {
+      const target = await this.readLink(path.join(procDir, 'fd', descriptor));
+      if (target) {
+        openPaths.add(target);
+      }
+    }
+  }
+
+  private async collectMappedFiles(procDir: string, openPaths: Set<string>): Promise<void> {
+    let maps: string;
+    try {
+      maps = await fs.readFile(path.join(procDir, 'maps'), 'utf8');
+    } catch {
+      return;
+    }
+
+    for (const line of maps.split('\n')) {
+      // address perms offset dev inode pathname, where the pathname may contain spaces
+      const fields = line.trim().split(/\s+/);
+      if (fields.length >= 6 && fields[5].startsWith('/')) {
+        openPaths.add(this.stripDeletedSuffix(fields.slice(5).join(' ')));
+      }
+    }
+  }
+
+  // Returns the link target when it is a filesystem path (not socket:[...], pipe:[...] or anon_inode:...)
+  private async readLink(linkPath: string): Promise<string | null> {
+    try {
+      const target = await fs.readlink(linkPath);
+      return target.startsWith('/') ? this.stripDeletedSuffix(target) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private stripDeletedSuffix(target: string): string {
+    return target.endsWith(' (deleted)') ? target.slice(0, -' (deleted)'.length) : target;
+  }
+}
@@ -0,0 +1,130 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OSDetector } from './OSDetector';
+import { QuarantineEntry } from './QuarantineManager';
+
+// replace: the file was swapped for an edited version, its backup holds the original
+export type JournalOperation = 'move' | 'delete' | 'rmdir' | 'mkdir' | 'link' | 'replace';
+
+export interface JournalRecord {
+  seq: number;
+  op: JournalOperation;
+  path: string;
+  destination?: string; // move target, or the file a link now points at
+  size: number;
+  backup?: QuarantineEntry; // set when the deletion was quarantined
+  timestamp: string;
+}
+
+export interface JournalRun {
+  runId: string;
+  path: string;
+  records: JournalRecord[];
+  undone: boolean;
+  modifiedAt: Date;
+}
+
+const JOURNAL_EXTENSION = '.jsonl';
+const UNDONE_EXTENSION = '.undone.jsonl';
+
+export class OperationJournal {
+  private journalDir: string;
+  private seq = 0;
+
+  constructor(
+    private runId: string,
+    journalDir?: string
+  ) {
+    this.journalDir = journalDir || OperationJournal.getDefaultDir();
+  }
+
+  static getDefaultDir(): string {
+    return path.join(OSDetector.getHomeDirectory(), '.cleanmypc', 'journal');
+  }
+
+  getRunId(): string {
+    return this.runId;
+  }
+
+  // Appends one operation to this run's journal; records are never rewritten
+  async record(op: JournalOperation, filePath: string, details: Partial<Pick<JournalRecord, 'destination' | 'size' | 'backup'>> = {}): Promise<void> {
+    await fs.ensureDir(this.journalDir);
+
+    const record: JournalRecord = {
+      seq: ++this.seq,
+      op,
+      path: path.resolve(filePath),
+      destination: details.destination ? path.resolve(details.destination) : undefined,
+      size: details.size || 0,
+      backup: details.backup,
+      timestamp: new Date().toISOString()
+    };
+
+    await fs.appendFile(this.getJournalPath(this.runId), JSON.stringify(record) + '\n');
+  }
+
+  async listRuns(): Promise<JournalRun[]> {
+    if (!(await fs.pathExists(this.journalDir))) {
+      return [];
+    }
+
+    const runs: JournalRun[] = [];
+
+    for (const file of await fs.readdir(this.journalDir)) {
+      if (!file.endsWith(JOURNAL_EXTENSION)) continue;
+
+      const undone = file.endsWith(UNDONE_EXTENSION);
+      const runId = file.slice(0, -(undone ? UNDONE_EXTENSION : JOURNAL_EXTENSION).length);
+      const journalPath = path.join(this.journalDir, file);
+      const stats = await fs.stat(journalPath);
+
+      runs.push({
+        runId,
+        path: journalPath,
+        records: await this.readRecords(journalPath),
+        undone,
+        modifiedAt: stats.mtime
+      });
+    }
+
+    // Run ids start with a timestamp, so sorting by id gives chronological order
+    return runs.sort((a, b) => b.runId.localeCompare(a.runId));
+  }
+
+  async getRun(runId: string): Promise<JournalRun | null> {
+    const runs = await this.listRuns();
+    return runs.find(run => run.runId === runId) || null;
+  }
+
+  async getLastRun(): Promise<JournalRun | null> {
+    const runs = await this.listRuns();
+    return runs.find(run => !run.undone && run.records.length > 0) || null;
+  }
+
+  async markUndone(run: JournalRun): Promise<void> {
+    if (!run.undone) {
+      await fs.move(run.path, path.join(this.journalDir, run.runId + UNDONE_EXTENSION));
+    }
+  }
+
+  private getJournalPath(runId: string): string {
+    return path.join(this.journalDir, runId + JOURNAL_EXTENSION);
+  }
+
+  private async readRecords(journalPath: string): Promise<JournalRecord[]> {
+    const content = await fs.readFile(journalPath, 'utf8');
+    const records: JournalRecord[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip a partially written line from an interrupted run
+      }
+    }
+
+    return records;
+  }
+}
@@ -0,0 +1,178 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OSDetector } from './OSDetector';
+
+export interface PathRefusal {
+  path: string;
+  resolvedPath: string;
+  root?: string;
+  reason: string;
+}
+
+export class PathGuard {
+  // Locations that must never be deleted themselves or used as a cleanup root
+  private exactRoots: string[];
+  // Locations whose whole tree is off limits
+  private treeRoots: string[];
+  private realPathCache = new Map<string, string>();
+
+  constructor() {
+    const homeDir = OSDetector.getHomeDirectory();
+    const osType = OSDetector.getOS();
+
+    const userFolders = ['Documents', 'Desktop', 'Downloads', 'Pictures', 'Videos', 'Movies', 'Music']
+      .map(folder => path.join(homeDir, folder));
+
+    if (osType === 'windows') {
+      const systemDrive = process.env.SystemDrive || 'C:';
+      this.exactRoots = [
+        `${systemDrive}\\`,
+        path.join(systemDrive, '\\Users'),
+        path.join(systemDrive, '\\Windows'),
+        homeDir,
+        ...userFolders
+      ];
+      this.treeRoots = [
+        path.join(systemDrive, '\\Windows', 'System32'),
+        path.join(systemDrive, '\\Windows', 'SysWOW64'),
+        path.join(systemDrive, '\\Program Files'),
+        path.join(systemDrive, '\\Program Files (x86)'),
+        path.join(homeDir, '.ssh')
+      ];
+    } else {
+      this.exactRoots = [
+        '/',
+        '/home',
+        '/root',
+        '/Users',
+        '/Volumes',
+        '/var',
+        '/opt',
+        homeDir,
+        ...userFolders
+      ];
+      this.treeRoots = [
+        '/etc',
+        '/usr',
+        '/bin',
+        '/sbin',
+        '/lib',
+        '/lib32',
+        '/lib64',
+        '/boot',
+        '/dev',
+        '/proc',
+        '/sys',
+        '/System',
+        '/Library/System',
+        path.join(homeDir, '.ssh'),
+        path.join(homeDir, '.gnupg')
+      ];
+    }
+
+    this.exactRoots = this.exactRoots.map(root => this.normalize(path.resolve(root)));
+    this.treeRoots = this.treeRoots.map(root => this.normalize(path.resolve(root)));
+  }
+
+  // Returns null when the path is safe to delete, or the reason it was refused
+  async check(targetPath: string, root?: string): Promise<PathRefusal | null> {
+    const resolvedPath = await this.resolveTarget(targetPath);
+    const refuse = (reason: string): PathRefusal => ({ path: targetPath, resolvedPath, root, reason });
+
+    if (this.isProtected(resolvedPath)) {
+      return refuse('resolves to a protected location');
+    }
+
+    if (root) {
+      if (await this.isProtectedRoot(root)) {
+        return refuse(`cleanup root ${root} is a protected location`);
+      }
+
+      const resolvedRoot = await this.resolveRealPath(this.getStaticBase(root));
+      if (!this.isWithin(resolvedPath, resolvedRoot)) {
+        return refuse(`resolves outside of ${root}`);
+      }
+    }
+
+    return null;
+  }
+
+  // Lets callers reject a configured root up front instead of refusing every path below it
+  async isProtectedRoot(root: string): Promise<boolean> {
+    return this.isProtected(await this.resolveRealPath(this.getStaticBase(root)));
+  }
+
+  // Strips glob segments so patterns such as Profiles/*/cache2 are checked against Profiles
+  getStaticBase(pattern: string): string {
+    const segments = pattern.split(/[\\/]/);
+    const firstGlob = segments.findIndex(segment => /[*?[\]{}]/.test(segment));
+
+    if (firstGlob === -1) {
+      return pattern;
+    }
+
+    return segments.slice(0, firstGlob).join(path.sep) || path.sep;
+  }
+
+  private isProtected(resolvedPath: string): boolean {
+    const normalized = this.normalize(resolvedPath);
+
+    if (this.exactRoots.includes(normalized)) {
+      return true;
+    }
+
+    return this.treeRoots.some(root => this.isWithin(normalized, root));
+  }
+
+  private isWithin(candidate: string, root: string): boolean {
+    const normalizedCandidate = this.normalize(candidate);
+    const normalizedRoot = this.normalize(root);
+
+    if (normalizedCandidate === normalizedRoot) {
+      return true;
+    }
+
+    const prefix = normalizedRoot.endsWith(path.sep) ? normalizedRoot : normalizedRoot + path.sep;
+    return normalizedCandidate.startsWith(prefix);
+  }
+
+  // Deleting a symlink only removes the link, so only its parent directories need resolving
+  private async resolveTarget(targetPath: string): Promise<string> {
+    const absolutePath = path.resolve(targetPath);
+    const parent = path.dirname(absolutePath);
+
+    if (parent === absolutePath) {
+      return absolutePath;
+    }
+
+    return path.join(await this.resolveRealPath(parent), path.basename(absolutePath));
+  }
+
+  private async resolveRealPath(targetPath: string): Promise<string> {
+    const absolutePath = path.resolve(targetPath);
+    const cached = this.realPathCache.get(absolutePath);
+
+    if (cached) {
+      return cached;
+    }
+
+    let resolved: string;
+    try {
+      resolved = await fs.realpath(absolutePath);
+    } catch {
+      resolved = absolutePath;
+    }
+
+    this.realPathCache.set(absolutePath, resolved);
+    return resolved;
+  }
+
+  // Windows and macOS file systems are case-insensitive by default
+  private normalize(targetPath: string): string {
+    const trimmed = targetPath.length > 1 && /[\\/]$/.test(targetPath) && path.parse(targetPath).root !== targetPath
+      ? targetPath.slice(0, -1)
+      : targetPath;
+
+    return OSDetector.isLinux() ? trimmed : trimmed.toLowerCase();
+  }
+}
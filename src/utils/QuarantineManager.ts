@@ -0,0 +1,308 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OSDetector } from './OSDetector';
+
+export interface QuarantineEntry {
+  originalPath: string;
+  storedPath: string; // relative to the run directory
+  type: 'file' | 'directory';
+  size: number;
+  quarantinedAt: string;
+  replaced?: boolean; // an edited version took the original's place, restoring overwrites it
+}
+
+export interface QuarantineRun {
+  runId: string;
+  createdAt: Date;
+  path: string;
+  entries: QuarantineEntry[];
+  totalSize: number;
+}
+
+export interface RestoreResult {
+  restored: string[];
+  errors: string[];
+}
+
+const MANIFEST_FILE = 'manifest.jsonl';
+const RUN_INFO_FILE = 'run.json';
+const FILES_DIR = 'files';
+
+export class QuarantineManager {
+  private rootDir: string;
+  private runReady = false;
+
+  constructor(
+    private runId: string,
+    private retentionDays: number = 30,
+    rootDir?: string
+  ) {
+    this.rootDir = rootDir || QuarantineManager.getDefaultRoot();
+  }
+
+  static getDefaultRoot(): string {
+    return path.join(OSDetector.getHomeDirectory(), '.cleanmypc', 'quarantine');
+  }
+
+  getRunId(): string {
+    return this.runId;
+  }
+
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  // Moves a file or directory into the current run and records where it came from
+  async store(originalPath: string, type: 'file' | 'directory', size: number, replaced: boolean = false): Promise<QuarantineEntry> {
+    const runDir = await this.ensureRunDir();
+    const absolutePath = path.resolve(originalPath);
+    const storedPath = await this.getUniqueStoredPath(runDir, this.toRelativeStorePath(absolutePath));
+
+    await fs.move(absolutePath, path.join(runDir, storedPath));
+
+    const entry: QuarantineEntry = {
+      originalPath: absolutePath,
+      storedPath,
+      type,
+      size,
+      quarantinedAt: new Date().toISOString(),
+      replaced: replaced || undefined
+    };
+
+    // The manifest is append-only so a crash never loses track of already moved files
+    await fs.appendFile(path.join(runDir, MANIFEST_FILE), JSON.stringify(entry) + '\n');
+
+    return entry;
+  }
+
+  async listRuns(): Promise<QuarantineRun[]> {
+    if (!(await fs.pathExists(this.rootDir))) {
+      return [];
+    }
+
+    const runs: QuarantineRun[] = [];
+    const items = await fs.readdir(this.rootDir, { withFileTypes: true });
+
+    for (const item of items) {
+      if (item.isDirectory()) {
+        const run = await this.getRun(item.name);
+        if (run) {
+          runs.push(run);
+        }
+      }
+    }
+
+    return runs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getRun(runId: string): Promise<QuarantineRun | null> {
+    const runDir = path.join(this.rootDir, runId);
+
+    if (!(await fs.pathExists(path.join(runDir, MANIFEST_FILE)))) {
+      return null;
+    }
+
+    const entries = await this.readManifest(runDir);
+
+    return {
+      runId,
+      createdAt: await this.readCreatedAt(runDir),
+      path: runDir,
+      entries,
+      totalSize: entries.reduce((total, entry) => total + entry.size, 0)
+    };
+  }
+
+  async restoreRun(runId: string): Promise<RestoreResult> {
+    const run = await this.getRun(runId);
+
+    if (!run) {
+      throw new Error(`Quarantine run not found: ${runId}`);
+    }
+
+    return this.restoreEntries(runId, run.entries);
+  }
+
+  // Restores the given entries of a run and drops them from its manifest
+  async restoreEntries(runId: string, entries: QuarantineEntry[]): Promise<RestoreResult> {
+    const run = await this.getRun(runId);
+
+    if (!run) {
+      throw new Error(`Quarantine run not found: ${runId}`);
+    }
+
+    const restored: string[] = [];
+    const errors: string[] = [];
+    const restoredPaths = new Set<string>();
+
+    // Restore in reverse order so directories come back before the files that were removed from them
+    for (const entry of [...entries].reverse()) {
+      try {
+        await this.restoreEntry(run.path, entry);
+        restored.push(entry.originalPath);
+        restoredPaths.add(entry.storedPath);
+      } catch (error) {
+        errors.push(`Failed to restore ${entry.originalPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const remaining = run.entries.filter(entry => !restoredPaths.has(entry.storedPath));
+
+    if (remaining.length === 0) {
+      await fs.remove(run.path);
+    } else {
+      await this.writeManifest(run.path, remaining);
+    }
+
+    return { restored, errors };
+  }
+
+  private async restoreEntry(runDir: string, entry: QuarantineEntry): Promise<void> {
+    const storedPath = path.join(runDir, entry.storedPath);
+
+    if (!(await fs.pathExists(storedPath))) {
+      throw new Error('quarantined copy is missing');
+    }
+
+    if (await fs.pathExists(entry.originalPath)) {
+      const existing = await fs.stat(entry.originalPath);
+
+      if (entry.replaced && existing.isFile()) {
+        await fs.move(storedPath, entry.originalPath, { overwrite: true });
+        return;
+      }
+
+      // A directory that was recreated in the meantime is merged instead of replaced
+      if (entry.type === 'directory' && existing.isDirectory()) {
+        await fs.copy(storedPath, entry.originalPath, { overwrite: false, errorOnExist: false });
+        await fs.remove(storedPath);
+        return;
+      }
+
+      throw new Error('a file already exists at the original location');
+    }
+
+    await fs.ensureDir(path.dirname(entry.originalPath));
+    await fs.move(storedPath, entry.originalPath);
+  }
+
+  async purgeRun(runId: string): Promise<number> {
+    const run = await this.getRun(runId);
+
+    if (!run) {
+      throw new Error(`Quarantine run not found: ${runId}`);
+    }
+
+    await fs.remove(run.path);
+    return run.totalSize;
+  }
+
+  async purgeAll(): Promise<QuarantineRun[]> {
+    const runs = await this.listRuns();
+
+    for (const run of runs) {
+      await fs.remove(run.path);
+    }
+
+    return runs;
+  }
+
+  // Removes runs older than the retention period (0 keeps runs forever)
+  async purgeExpired(): Promise<QuarantineRun[]> {
+    if (this.retentionDays <= 0) {
+      return [];
+    }
+
+    const purged: QuarantineRun[] = [];
+
+    for (const run of await this.listRuns()) {
+      if (run.runId !== this.runId && this.isExpired(run)) {
+        await fs.remove(run.path);
+        purged.push(run);
+      }
+    }
+
+    return purged;
+  }
+
+  getExpiryDate(run: QuarantineRun): Date | null {
+    if (this.retentionDays <= 0) {
+      return null;
+    }
+
+    return new Date(run.createdAt.getTime() + this.retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  private isExpired(run: QuarantineRun): boolean {
+    const expiry = this.getExpiryDate(run);
+    return expiry !== null && expiry.getTime() <= Date.now();
+  }
+
+  private async ensureRunDir(): Promise<string> {
+    const runDir = path.join(this.rootDir, this.runId);
+
+    if (!this.runReady) {
+      await fs.ensureDir(path.join(runDir, FILES_DIR));
+
+      const infoPath = path.join(runDir, RUN_INFO_FILE);
+      if (!(await fs.pathExists(infoPath))) {
+        await fs.writeJson(infoPath, { runId: this.runId, createdAt: new Date().toISOString() }, { spaces: 2 });
+      }
+
+      this.runReady = true;
+    }
+
+    return runDir;
+  }
+
+  // Mirrors the absolute path under files/, dropping the drive separator on Windows
+  private toRelativeStorePath(absolutePath: string): string {
+    const { root } = path.parse(absolutePath);
+    const rootName = root.replace(/[:\\/]/g, '');
+    return path.join(FILES_DIR, rootName, absolutePath.slice(root.length));
+  }
+
+  private async getUniqueStoredPath(runDir: string, storedPath: string): Promise<string> {
+    let candidate = storedPath;
+    let counter = 1;
+
+    while (await fs.pathExists(path.join(runDir, candidate))) {
+      candidate = `${storedPath}.${counter}`;
+      counter++;
+    }
+
+    return candidate;
+  }
+
+  private async readManifest(runDir: string): Promise<QuarantineEntry[]> {
+    const content = await fs.readFile(path.join(runDir, MANIFEST_FILE), 'utf8');
+    const entries: QuarantineEntry[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip a partially written line from an interrupted run
+      }
+    }
+
+    return entries;
+  }
+
+  private async writeManifest(runDir: string, entries: QuarantineEntry[]): Promise<void> {
+    const content = entries.map(entry => JSON.stringify(entry) + '\n').join('');
+    await fs.writeFile(path.join(runDir, MANIFEST_FILE), content);
+  }
+
+  private async readCreatedAt(runDir: string): Promise<Date> {
+    try {
+      const info = await fs.readJson(path.join(runDir, RUN_INFO_FILE));
+      return new Date(info.createdAt);
+    } catch {
+      const stats = await fs.stat(runDir);
+      return stats.birthtime.getTime() > 0 ? stats.birthtime : stats.mtime;
+    }
+  }
+}
@@ -1,22 +1,68 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { CleanupResult } from '../CleanupManager';
+import { CleanupResult, ReclaimedSpace } from '../CleanupManager';
+import { ReportFormat, ReportRenderer, ReportSummary } from './reports/ReportRenderer';
+import { HtmlReport } from './reports/HtmlReport';
+import { MarkdownReport } from './reports/MarkdownReport';
+import { CsvReport } from './reports/CsvReport';
+import { TextReport } from './reports/TextReport';
+
+const EXTENSION_FORMATS: { [extension: string]: ReportFormat } = {
+  '.json': 'json',
+  '.html': 'html',
+  '.htm': 'html',
+  '.md': 'md',
+  '.markdown': 'md',
+  '.csv': 'csv'
+};
 
 export class ReportGenerator {
-  async generate(results: CleanupResult[], reportPath: string): Promise<void> {
-    const isJsonReport = path.extname(reportPath).toLowerCase() === '.json';
-    
-    if (isJsonReport) {
-      await this.generateJsonReport(results, reportPath);
+  // Any other extension gets a plain text report
+  static detectFormat(reportPath: string): ReportFormat {
+    return EXTENSION_FORMATS[path.extname(reportPath).toLowerCase()] || 'txt';
+  }
+
+  async generate(
+    results: CleanupResult[],
+    reportPath: string,
+    reclaimed: ReclaimedSpace[] = [],
+    format: ReportFormat = ReportGenerator.detectFormat(reportPath)
+  ): Promise<void> {
+    if (format === 'json') {
+      await this.generateJsonReport(results, reportPath, reclaimed);
     } else {
-      await this.generateTextReport(results, reportPath);
+      const content = this.getRenderer(format).render({
+        generatedAt: new Date(),
+        summary: this.generateSummary(results),
+        reclaimed,
+        results
+      });
+      
+      await fs.ensureDir(path.dirname(reportPath));
+      await fs.writeFile(reportPath, content);
+    }
+  }
+
+  private getRenderer(format: ReportFormat): ReportRenderer {
+    switch (format) {
+      case 'html':
+        return new HtmlReport();
+      case 'md':
+        return new MarkdownReport();
+      case 'csv':
+        return new CsvReport();
+      case 'txt':
+        return new TextReport();
+      default:
+        throw new Error(`Unknown report format "${format}"`);
     }
   }
 
-  private async generateJsonReport(results: CleanupResult[], reportPath: string): Promise<void> {
+  private async generateJsonReport(results: CleanupResult[], reportPath: string, reclaimed: ReclaimedSpace[]): Promise<void> {
     const report = {
       timestamp: new Date().toISOString(),
       summary: this.generateSummary(results),
+      reclaimedSpace: reclaimed,
       results
     };
 
@@ -24,56 +70,7 @@ export class ReportGenerator {
     await fs.writeJson(reportPath, report, { spaces: 2 });
   }
 
-  private async generateTextReport(results: CleanupResult[], reportPath: string): Promise<void> {
-    const lines: string[] = [];
-    
-    lines.push('='.repeat(60));
-    lines.push('CleanMyPC - Cleanup Report');
-    lines.push('='.repeat(60));
-    lines.push(`Generated: ${new Date().toLocaleString()}`);
-    lines.push('');
-
-    const summary = this.generateSummary(results);
-    lines.push('SUMMARY:');
-    lines.push('-'.repeat(30));
-    lines.push(`Total files cleaned: ${summary.totalFiles}`);
-    lines.push(`Total space freed: ${this.formatBytes(summary.totalSpace)}`);
-    lines.push(`Total files organized: ${summary.totalOrganized}`);
-    lines.push(`Total errors: ${summary.totalErrors}`);
-    lines.push('');
-
-    lines.push('DETAILED RESULTS:');
-    lines.push('-'.repeat(30));
-
-    results.forEach(result => {
-      lines.push(`\n${result.task.toUpperCase()}:`);
-      lines.push(`  Files deleted: ${result.filesDeleted}`);
-      lines.push(`  Space saved: ${this.formatBytes(result.spaceSaved)}`);
-      
-      if (result.filesOrganized !== undefined) {
-        lines.push(`  Files organized: ${result.filesOrganized}`);
-      }
-      
-      if (result.largeFiles && result.largeFiles.length > 0) {
-        lines.push(`  Large files found: ${result.largeFiles.length}`);
-        result.largeFiles.forEach(file => {
-          lines.push(`    - ${file.path} (${this.formatBytes(file.size)})`);
-        });
-      }
-      
-      if (result.errors.length > 0) {
-        lines.push(`  Errors (${result.errors.length}):`);
-        result.errors.forEach(error => {
-          lines.push(`    - ${error}`);
-        });
-      }
-    });
-
-    await fs.ensureDir(path.dirname(reportPath));
-    await fs.writeFile(reportPath, lines.join('\n'));
-  }
-
-  private generateSummary(results: CleanupResult[]) {
+  private generateSummary(results: CleanupResult[]): ReportSummary {
     return results.reduce(
       (summary, result) => ({
         totalFiles: summary.totalFiles + result.filesDeleted,
@@ -84,12 +81,4 @@ export class ReportGenerator {
       { totalFiles: 0, totalSpace: 0, totalOrganized: 0, totalErrors: 0 }
     );
   }
-
-  private formatBytes(bytes: number): string {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  }
 }
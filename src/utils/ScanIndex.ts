@@ -0,0 +1,178 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OSDetector } from './OSDetector';
+import { EntryStats, WalkEntry } from './FileWalker';
+
+type EntryType = 'f' | 'd' | 'l' | 'o';
+
+// name, type, size, mtimeMs, ino, dev, nlink, blocks; tuples keep the index file small
+type IndexedEntry = [string, EntryType, number, number, number, number, number, number];
+
+interface IndexedDirectory {
+  mtimeMs: number;
+  entries: IndexedEntry[];
+}
+
+interface IndexFile {
+  version: number;
+  directories: Record<string, IndexedDirectory>;
+}
+
+export interface IndexedListing {
+  entries: WalkEntry[];
+  reused: boolean; // served from the index without reading the directory
+}
+
+const INDEX_VERSION = 2;
+const INDEX_FILE_NAME = 'directories.json';
+
+// A directory changed within this window could change again in the same mtime tick
+const RACY_WINDOW_MS = 2000;
+
+/**
+ * On-disk listing cache for the report features (large files, duplicates and
+ * du). A directory is only read again once its own mtime changed, so a file
+ * rewritten in place keeps its indexed size until something is added to or
+ * removed from its directory. Cleanup tasks never use it for that reason.
+ */
+export class ScanIndex {
+  private directories?: Promise<Map<string, IndexedDirectory>>;
+  private dirty = false;
+
+  constructor(private indexDir: string = ScanIndex.getDefaultDir()) {}
+
+  static getDefaultDir(): string {
+    return path.join(OSDetector.getHomeDirectory(), '.cleanmypc', 'index');
+  }
+
+  async readDirectory(dirPath: string): Promise<IndexedListing> {
+    const absolutePath = path.resolve(dirPath);
+    const directories = await this.load();
+    let dirStats: fs.Stats;
+
+    try {
+      dirStats = await fs.lstat(absolutePath);
+    } catch (error) {
+      this.removeTree(directories, absolutePath);
+      throw error;
+    }
+
+    const indexed = directories.get(absolutePath);
+    if (indexed && indexed.mtimeMs === dirStats.mtimeMs) {
+      return { entries: indexed.entries.map(entry => this.toWalkEntry(absolutePath, entry)), reused: true };
+    }
+
+    const entries: WalkEntry[] = [];
+    for (const name of await fs.readdir(absolutePath)) {
+      const entryPath = path.join(absolutePath, name);
+
+      try {
+        entries.push({ path: entryPath, name, stats: await fs.lstat(entryPath) });
+      } catch {
+        // Removed between readdir and lstat
+        continue;
+      }
+    }
+
+    // Subdirectories that are gone take their indexed contents with them
+    if (indexed) {
+      const names = new Set(entries.map(entry => entry.name));
+      indexed.entries
+        .filter(([name, type]) => type === 'd' && !names.has(name))
+        .forEach(([name]) => this.removeTree(directories, path.join(absolutePath, name)));
+    }
+
+    if (Date.now() - dirStats.mtimeMs > RACY_WINDOW_MS) {
+      directories.set(absolutePath, { mtimeMs: dirStats.mtimeMs, entries: entries.map(entry => this.toIndexedEntry(entry)) });
+    } else {
+      directories.delete(absolutePath);
+    }
+    this.dirty = true;
+
+    return { entries, reused: false };
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty || !this.directories) return;
+
+    const indexFile: IndexFile = {
+      version: INDEX_VERSION,
+      directories: Object.fromEntries(await this.directories)
+    };
+
+    // Written next to the index and renamed over it, so a crash never leaves half a file
+    const indexPath = this.getIndexPath();
+    const tempPath = `${indexPath}.tmp`;
+
+    await fs.ensureDir(this.indexDir);
+    await fs.writeFile(tempPath, JSON.stringify(indexFile));
+    await fs.rename(tempPath, indexPath);
+
+    this.dirty = false;
+  }
+
+  // Forgets everything, so the next scans read every directory again
+  async clear(): Promise<void> {
+    this.directories = Promise.resolve(new Map());
+    this.dirty = false;
+    await fs.remove(this.getIndexPath());
+  }
+
+  private load(): Promise<Map<string, IndexedDirectory>> {
+    if (!this.directories) {
+      this.directories = (async () => {
+        try {
+          const indexFile: IndexFile = await fs.readJson(this.getIndexPath());
+
+          if (indexFile.version === INDEX_VERSION) {
+            return new Map(Object.entries(indexFile.directories));
+          }
+        } catch {
+          // Missing or unreadable index, start over
+        }
+
+        return new Map<string, IndexedDirectory>();
+      })();
+    }
+
+    return this.directories;
+  }
+
+  private removeTree(directories: Map<string, IndexedDirectory>, dirPath: string): void {
+    const prefix = dirPath + path.sep;
+
+    for (const indexedPath of [...directories.keys()]) {
+      if (indexedPath === dirPath || indexedPath.startsWith(prefix)) {
+        directories.delete(indexedPath);
+        this.dirty = true;
+      }
+    }
+  }
+
+  private getIndexPath(): string {
+    return path.join(this.indexDir, INDEX_FILE_NAME);
+  }
+
+  private toIndexedEntry(entry: WalkEntry): IndexedEntry {
+    const { stats } = entry;
+    const type: EntryType = stats.isFile() ? 'f' : stats.isDirectory() ? 'd' : stats.isSymbolicLink() ? 'l' : 'o';
+
+    return [entry.name, type, stats.size, stats.mtimeMs, stats.ino, stats.dev, stats.nlink, stats.blocks];
+  }
+
+  private toWalkEntry(dirPath: string, [name, type, size, mtimeMs, ino, dev, nlink, blocks]: IndexedEntry): WalkEntry {
+    const stats: EntryStats = {
+      size,
+      mtimeMs,
+      ino,
+      dev,
+      nlink,
+      blocks,
+      isFile: () => type === 'f',
+      isDirectory: () => type === 'd',
+      isSymbolicLink: () => type === 'l'
+    };
+
+    return { path: path.join(dirPath, name), name, stats };
+  }
+}
@@ -0,0 +1,148 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ReclaimedSpace } from '../CleanupManager';
+import { DiskSpace } from './DiskSpace';
+import { EntryStats } from './FileWalker';
+
+interface TrackedFilesystem {
+  device: number;
+  mountPoint: string;
+  estimated: number;
+  freeBefore?: Promise<number | undefined>; // measured before the first deletion, shared by concurrent ones
+  freeAfter?: number;
+}
+
+interface TrackedInode {
+  linksRemoved: number;
+  nlink: number;
+}
+
+/**
+ * Run-wide account of the space cleaners give back, per filesystem. The
+ * estimate counts allocated blocks rather than file sizes, so sparse files are
+ * not overcounted, and a hardlinked inode only once all of its links are gone.
+ * The actual figure is the change in free space measured with statfs before
+ * the first deletion on a filesystem and after each task.
+ */
+export class SpaceTracker {
+  private filesystems = new Map<number, Promise<TrackedFilesystem>>();
+  private inodes = new Map<string, TrackedInode>();
+
+  // Call right before deleting from a filesystem; the first call measures its free space
+  async prepare(targetPath: string, stats: EntryStats): Promise<void> {
+    const filesystem = await this.getFilesystem(targetPath, stats.dev);
+
+    if (!filesystem.freeBefore) {
+      filesystem.freeBefore = this.measureFree(filesystem.mountPoint);
+    }
+
+    await filesystem.freeBefore;
+  }
+
+  // Counts deleted entries, a file or a directory with everything below it, towards the estimate
+  async record(targetPath: string, entries: EntryStats[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const filesystem = await this.getFilesystem(targetPath, entries[0].dev);
+
+    for (const stats of entries) {
+      if (this.isLastLink(stats)) {
+        filesystem.estimated += this.getAllocatedBytes(stats);
+      }
+    }
+  }
+
+  // For space given back without deleting whole files, like a database that was compacted
+  async recordBytes(targetPath: string, stats: EntryStats, bytes: number): Promise<void> {
+    const filesystem = await this.getFilesystem(targetPath, stats.dev);
+    filesystem.estimated += bytes;
+  }
+
+  // Measures free space again on every filesystem that was prepared
+  async measure(): Promise<void> {
+    for (const pending of this.filesystems.values()) {
+      const filesystem = await pending;
+
+      if (filesystem.freeBefore) {
+        filesystem.freeAfter = await this.measureFree(filesystem.mountPoint);
+      }
+    }
+  }
+
+  // Filesystems in the order they were first touched, as of the last measure()
+  async getResults(): Promise<ReclaimedSpace[]> {
+    const filesystems = await Promise.all(this.filesystems.values());
+
+    return Promise.all(filesystems.map(async filesystem => {
+      const freeBefore = await filesystem.freeBefore;
+      const { freeAfter } = filesystem;
+
+      return {
+        mountPoint: filesystem.mountPoint,
+        device: filesystem.device,
+        estimated: filesystem.estimated,
+        actual: freeBefore !== undefined && freeAfter !== undefined ? freeAfter - freeBefore : undefined,
+        freeBefore,
+        freeAfter
+      };
+    }));
+  }
+
+  // Concurrent deletions on a new filesystem share one lookup, so free space is measured before any of them
+  private getFilesystem(targetPath: string, device: number): Promise<TrackedFilesystem> {
+    let filesystem = this.filesystems.get(device);
+
+    if (!filesystem) {
+      filesystem = this.findMountPoint(targetPath, device).then(mountPoint => ({ device, mountPoint, estimated: 0 }));
+      this.filesystems.set(device, filesystem);
+    }
+
+    return filesystem;
+  }
+
+  // The topmost ancestor still on the same device
+  private async findMountPoint(targetPath: string, device: number): Promise<string> {
+    let current = path.resolve(targetPath);
+
+    while (path.dirname(current) !== current) {
+      const parent = path.dirname(current);
+
+      try {
+        if ((await fs.stat(parent)).dev !== device) break;
+      } catch {
+        break;
+      }
+
+      current = parent;
+    }
+
+    return current;
+  }
+
+  private async measureFree(mountPoint: string): Promise<number | undefined> {
+    try {
+      return (await DiskSpace.measure(mountPoint)).available;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Directories are never hardlinked, their link count is made up of "." and subdirectory entries
+  private isLastLink(stats: EntryStats): boolean {
+    if (stats.isDirectory() || stats.nlink <= 1) {
+      return true;
+    }
+
+    const key = `${stats.dev}:${stats.ino}`;
+    const inode = this.inodes.get(key) || { linksRemoved: 0, nlink: stats.nlink };
+    inode.linksRemoved++;
+    this.inodes.set(key, inode);
+
+    return inode.linksRemoved === inode.nlink;
+  }
+
+  // Windows reports no allocated blocks, so its estimate falls back to the file size
+  private getAllocatedBytes(stats: EntryStats): number {
+    return process.platform === 'win32' ? stats.size : stats.blocks * 512;
+  }
+}
@@ -0,0 +1,60 @@
+import { execFile, ExecFileException } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const SQLITE_TIMEOUT_MS = 120000;
+
+/**
+ * Runs SQL against a database file through the sqlite3 command line shell,
+ * so no native module has to be built for every platform and Node version.
+ * Rows come back as arrays of column values.
+ */
+export class SqliteShell {
+  private static available?: Promise<boolean>;
+
+  static isAvailable(): Promise<boolean> {
+    if (!SqliteShell.available) {
+      SqliteShell.available = execFileAsync('sqlite3', ['-version'], { timeout: 10000 })
+        .then(() => true, () => false);
+    }
+
+    return SqliteShell.available;
+  }
+
+  // -bail stops at the first failing statement, so a transaction is never committed halfway
+  async query(dbPath: string, sql: string): Promise<string[][]> {
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync(
+        'sqlite3',
+        ['-bail', '-batch', '-noheader', '-list', '-separator', '\t', dbPath, sql],
+        { timeout: SQLITE_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 }
+      ));
+    } catch (error) {
+      // The shell's own message (e.g. "database disk image is malformed") says more than the failed command line
+      const { stderr, message } = error as ExecFileException & { stderr?: string };
+      throw new Error(stderr?.trim().replace(/^Error: (in prepare, )?/, '') || message || 'sqlite3 failed');
+    }
+
+    return stdout.split('\n').filter(line => line).map(line => line.split('\t'));
+  }
+
+  async getTables(dbPath: string): Promise<Set<string>> {
+    const rows = await this.query(dbPath, "SELECT name FROM sqlite_master WHERE type = 'table';");
+    return new Set(rows.map(([name]) => name));
+  }
+
+  // PRAGMA integrity_check prints a single "ok" for a sound database and a list of problems otherwise
+  async checkIntegrity(dbPath: string): Promise<string | null> {
+    const rows = await this.query(dbPath, 'PRAGMA integrity_check;');
+    const result = rows.map(row => row.join(' ')).join('; ');
+
+    return result === 'ok' ? null : result || 'no result';
+  }
+
+  // Quotes a value for use as an SQL string literal
+  static quote(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+}
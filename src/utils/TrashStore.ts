@@ -0,0 +1,277 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OSDetector } from './OSDetector';
+import { FileWalker } from './FileWalker';
+import { MountTable } from './MountTable';
+
+export interface TrashItem {
+  name: string; // name inside files/, unique within its trash directory
+  trashDir: string;
+  filePath: string;
+  infoPath: string;
+  originalPath: string | null; // null when the .trashinfo file is missing or unreadable
+  deletionDate: Date | null;
+  size: number;
+  type: 'file' | 'directory';
+}
+
+export interface TrashDirectory {
+  path: string;
+  topDir: string; // relative Path= entries are relative to it
+  mountPoint: string;
+}
+
+export interface TrashDiscovery {
+  directories: TrashDirectory[];
+  problems: string[]; // volume trash directories ignored because they fail the spec's checks
+}
+
+const STICKY_BIT = 0o1000;
+
+const FILES_DIR = 'files';
+const INFO_DIR = 'info';
+const INFO_EXTENSION = '.trashinfo';
+
+/**
+ * Reads and restores items of an XDG trash directory (files/ holds the
+ * trashed files, info/<name>.trashinfo where each one came from and when it
+ * was deleted). Deleting items is left to TrashCleaner so it goes through
+ * the usual safety checks, quarantine and journal.
+ */
+export class TrashStore {
+  private walker = new FileWalker();
+
+  constructor(
+    private trashDir: string,
+    private topDir: string = path.dirname(trashDir) // relative Path= entries are relative to it
+  ) {}
+
+  /**
+   * The home trash plus, for every mounted filesystem, $topdir/.Trash/$uid
+   * (only when $topdir/.Trash is a real directory with the sticky bit set,
+   * so other users cannot swap it out) and $topdir/.Trash-$uid. Both
+   * per-user directories must be real directories owned by the current user.
+   */
+  static async findTrashDirectories(mountInfoPath?: string): Promise<TrashDiscovery> {
+    const homeDir = OSDetector.getHomeDirectory();
+    const dataHome = process.env.XDG_DATA_HOME || path.join(homeDir, '.local', 'share');
+    const homeTrash = path.join(dataHome, 'Trash');
+    const mounts = await MountTable.readStorage(mountInfoPath);
+    const uid = process.getuid ? process.getuid() : undefined;
+
+    const candidates: TrashDirectory[] = [
+      { path: homeTrash, topDir: dataHome, mountPoint: MountTable.findMount(homeTrash, mounts)?.mountPoint || '/' }
+    ];
+    const problems: string[] = [];
+
+    for (const mount of uid === undefined ? [] : mounts) {
+      const topDir = mount.mountPoint;
+      const sharedTrash = path.join(topDir, '.Trash');
+      const sharedStats = await TrashStore.lstat(sharedTrash);
+
+      if (sharedStats) {
+        if (sharedStats.isSymbolicLink() || !sharedStats.isDirectory()) {
+          problems.push(`Ignoring ${sharedTrash}: not a directory (symbolic links are not trusted)`);
+        } else if (!(sharedStats.mode & STICKY_BIT)) {
+          problems.push(`Ignoring ${sharedTrash}: the sticky bit is not set`);
+        } else if (await TrashStore.isOwnDirectory(path.join(sharedTrash, String(uid)), uid!, problems)) {
+          candidates.push({ path: path.join(sharedTrash, String(uid)), topDir, mountPoint: topDir });
+        }
+      }
+
+      const userTrash = path.join(topDir, `.Trash-${uid}`);
+      if (await TrashStore.isOwnDirectory(userTrash, uid!, problems)) {
+        candidates.push({ path: userTrash, topDir, mountPoint: topDir });
+      }
+    }
+
+    const directories: TrashDirectory[] = [];
+    for (const candidate of candidates) {
+      const filesStats = await TrashStore.lstat(path.join(candidate.path, FILES_DIR));
+
+      if (filesStats?.isDirectory() && !directories.some(directory => directory.path === candidate.path)) {
+        directories.push(candidate);
+      }
+    }
+
+    return { directories, problems };
+  }
+
+  // False when the directory is missing, and also when it fails the checks, which are then added to problems
+  private static async isOwnDirectory(trashPath: string, uid: number, problems: string[]): Promise<boolean> {
+    const stats = await TrashStore.lstat(trashPath);
+
+    if (!stats) {
+      return false;
+    }
+
+    if (stats.isSymbolicLink() || !stats.isDirectory()) {
+      problems.push(`Ignoring ${trashPath}: not a directory (symbolic links are not trusted)`);
+      return false;
+    }
+
+    if (stats.uid !== uid) {
+      problems.push(`Ignoring ${trashPath}: owned by another user`);
+      return false;
+    }
+
+    return true;
+  }
+
+  private static async lstat(targetPath: string): Promise<fs.Stats | null> {
+    try {
+      return await fs.lstat(targetPath);
+    } catch {
+      // Missing, or on a volume we cannot read
+      return null;
+    }
+  }
+
+  getTrashDir(): string {
+    return this.trashDir;
+  }
+
+  async list(): Promise<TrashItem[]> {
+    const filesDir = path.join(this.trashDir, FILES_DIR);
+    const items: TrashItem[] = [];
+
+    let names: string[];
+    try {
+      names = await fs.readdir(filesDir);
+    } catch {
+      return items;
+    }
+
+    for (const name of names) {
+      const filePath = path.join(filesDir, name);
+
+      try {
+        const stats = await fs.lstat(filePath);
+        const info = await this.readInfo(name);
+
+        items.push({
+          name,
+          trashDir: this.trashDir,
+          filePath,
+          infoPath: this.getInfoPath(name),
+          originalPath: info?.originalPath ?? null,
+          deletionDate: info?.deletionDate ?? null,
+          size: stats.isDirectory() ? await this.getDirectorySize(filePath) : stats.size,
+          type: stats.isDirectory() ? 'directory' : 'file'
+        });
+      } catch {
+        // Removed while listing
+        continue;
+      }
+    }
+
+    return items;
+  }
+
+  // .trashinfo files whose item is gone, e.g. after a file manager crashed halfway through emptying
+  async listOrphanedInfo(): Promise<string[]> {
+    const infoDir = path.join(this.trashDir, INFO_DIR);
+
+    let names: string[];
+    try {
+      names = await fs.readdir(infoDir);
+    } catch {
+      return [];
+    }
+
+    const orphaned: string[] = [];
+    for (const name of names.filter(name => name.endsWith(INFO_EXTENSION))) {
+      const itemPath = path.join(this.trashDir, FILES_DIR, name.slice(0, -INFO_EXTENSION.length));
+
+      try {
+        await fs.lstat(itemPath);
+      } catch {
+        orphaned.push(path.join(infoDir, name));
+      }
+    }
+
+    return orphaned;
+  }
+
+  // Moves an item back to where it was deleted from; never overwrites anything
+  async restore(item: TrashItem): Promise<string> {
+    if (!item.originalPath) {
+      throw new Error(`${item.name} has no .trashinfo file, its original location is unknown`);
+    }
+
+    if (await fs.pathExists(item.originalPath)) {
+      throw new Error(`${item.originalPath} already exists`);
+    }
+
+    await fs.ensureDir(path.dirname(item.originalPath));
+    await fs.move(item.filePath, item.originalPath);
+    await fs.remove(item.infoPath);
+
+    return item.originalPath;
+  }
+
+  private async readInfo(name: string): Promise<{ originalPath: string; deletionDate: Date | null } | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getInfoPath(name), 'utf8');
+    } catch {
+      return null;
+    }
+
+    const values = new Map<string, string>();
+    let inTrashInfo = false;
+
+    for (const line of content.split(/\r?\n/)) {
+      const trimmed = line.trim();
+
+      if (trimmed.startsWith('[')) {
+        inTrashInfo = trimmed === '[Trash Info]';
+      } else if (inTrashInfo && trimmed.includes('=')) {
+        const separator = trimmed.indexOf('=');
+        values.set(trimmed.slice(0, separator).trim(), trimmed.slice(separator + 1).trim());
+      }
+    }
+
+    const rawPath = values.get('Path');
+    if (!rawPath) {
+      return null;
+    }
+
+    return {
+      originalPath: path.resolve(this.topDir, this.decodePath(rawPath)),
+      deletionDate: this.parseDeletionDate(values.get('DeletionDate'))
+    };
+  }
+
+  // Path= is percent-encoded like a URI path
+  private decodePath(rawPath: string): string {
+    try {
+      return decodeURIComponent(rawPath);
+    } catch {
+      return rawPath;
+    }
+  }
+
+  // DeletionDate=YYYY-MM-DDThh:mm:ss in local time
+  private parseDeletionDate(value?: string): Date | null {
+    const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})/);
+    if (!match) {
+      return null;
+    }
+
+    const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+  }
+
+  private getInfoPath(name: string): string {
+    return path.join(this.trashDir, INFO_DIR, name + INFO_EXTENSION);
+  }
+
+  private async getDirectorySize(dirPath: string): Promise<number> {
+    const entries = await this.walker.walk(dirPath);
+
+    return entries
+      .filter(entry => !entry.stats.isDirectory())
+      .reduce((total, entry) => total + entry.stats.size, 0);
+  }
+}
@@ -0,0 +1,10 @@
+const UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+// 1536 -> "1.5 KB"; negative amounts, like free space that shrank during a run, keep their sign
+export function formatBytes(bytes: number): string {
+  if (bytes < 0) return `-${formatBytes(-bytes)}`;
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + UNITS[i];
+}
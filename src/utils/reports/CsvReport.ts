@@ -0,0 +1,23 @@
+import { ReportData, ReportRenderer } from './ReportRenderer';
+
+const COLUMNS = ['task', 'action', 'path', 'size', 'destination', 'quarantined'];
+
+// One row per file a task deleted, moved or hardlinked, for spreadsheets and scripts
+export class CsvReport extends ReportRenderer {
+  render(data: ReportData): string {
+    const rows = [COLUMNS];
+
+    data.results.forEach(result => {
+      (result.files || []).forEach(file => {
+        rows.push([result.task, file.action, file.path, String(file.size), file.destination || '', file.quarantined ? 'yes' : 'no']);
+      });
+    });
+
+    // RFC 4180: CRLF line breaks, and fields quoted when they hold a comma, a quote or a line break
+    return rows.map(row => row.map(field => this.quote(field)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private quote(field: string): string {
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  }
+}
@@ -0,0 +1,193 @@
+import { CleanupResult } from '../../CleanupManager';
+import { ReportData, ReportRenderer } from './ReportRenderer';
+import { formatBytes } from '../formatBytes';
+
+const LARGEST_ITEMS = 25;
+
+interface ChartBar {
+  label: string;
+  value: number;
+  text: string; // shown next to the bar
+}
+
+// Styles and charts are inlined, so the file opens offline and can be mailed around as is
+const STYLE = `
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; margin: 2rem auto; max-width: 1100px; padding: 0 1rem; color: #1f2328; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2.5rem; border-bottom: 1px solid #d0d7de; padding-bottom: 0.3rem; }
+  .muted { color: #656d76; }
+  .cards { display: flex; flex-wrap: wrap; gap: 1rem; margin-top: 1.5rem; }
+  .card { flex: 1 1 180px; border: 1px solid #d0d7de; border-radius: 8px; padding: 1rem; }
+  .card .value { font-size: 1.6rem; font-weight: 600; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #d0d7de; vertical-align: top; }
+  th { background: #f6f8fa; }
+  td.number, th.number { text-align: right; white-space: nowrap; }
+  td.path { font-family: ui-monospace, Menlo, Consolas, monospace; word-break: break-all; }
+  .charts { display: flex; flex-wrap: wrap; gap: 2rem; }
+  .chart { flex: 1 1 480px; }
+  .chart text { font-size: 12px; fill: #1f2328; }
+  .chart rect { fill: #2f81f7; }
+  .errors li { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.85rem; margin-bottom: 0.3rem; word-break: break-all; }
+`;
+
+// A single page report with summary cards, per-task charts, the largest items and every error
+export class HtmlReport extends ReportRenderer {
+  render(data: ReportData): string {
+    const { summary } = data;
+    const sections: string[] = [];
+
+    sections.push(`<h1>CleanMyPC Cleanup Report</h1>`);
+    sections.push(`<div class="muted">Generated ${this.escape(data.generatedAt.toLocaleString())}</div>`);
+    sections.push(`<div class="cards">
+  ${this.card('Files cleaned', summary.totalFiles.toLocaleString())}
+  ${this.card('Space freed', formatBytes(summary.totalSpace))}
+  ${this.card('Files organized', summary.totalOrganized.toLocaleString())}
+  ${this.card('Errors', summary.totalErrors.toLocaleString())}
+</div>`);
+
+    if (data.reclaimed.length > 0) {
+      sections.push(this.renderReclaimed(data));
+    }
+
+    sections.push(this.renderCharts(data.results));
+    sections.push(this.renderTasks(data.results));
+    sections.push(this.renderLargestItems(data.results));
+    sections.push(this.renderErrors(data.results));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>CleanMyPC Cleanup Report - ${this.escape(data.generatedAt.toLocaleString())}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${sections.filter(section => section).join('\n')}
+</body>
+</html>
+`;
+  }
+
+  private renderReclaimed(data: ReportData): string {
+    const rows = data.reclaimed.map(filesystem => `<tr>
+  <td class="path">${this.escape(filesystem.mountPoint)}</td>
+  <td class="number">${formatBytes(filesystem.estimated)}</td>
+  <td class="number">${this.formatActual(filesystem)}</td>
+  <td class="number">${filesystem.freeAfter !== undefined ? formatBytes(filesystem.freeAfter) : ''}</td>
+</tr>`);
+
+    return `<h2>Reclaimed space per filesystem</h2>
+<table>
+<tr><th>Filesystem</th><th class="number">Estimated</th><th class="number">Actual</th><th class="number">Free now</th></tr>
+${rows.join('\n')}
+</table>`;
+  }
+
+  private renderCharts(results: CleanupResult[]): string {
+    if (results.length === 0) {
+      return '';
+    }
+
+    const space = results.map(result => ({ label: result.task, value: result.spaceSaved, text: formatBytes(result.spaceSaved) }));
+    const files = results.map(result => {
+      const count = result.filesDeleted + (result.filesOrganized || 0) + (result.filesLinked || 0);
+      return { label: result.task, value: count, text: count.toLocaleString() };
+    });
+
+    return `<h2>Tasks</h2>
+<div class="charts">
+  <div class="chart"><h3>Space freed</h3>${this.barChart(space)}</div>
+  <div class="chart"><h3>Files deleted, moved or hardlinked</h3>${this.barChart(files)}</div>
+</div>`;
+  }
+
+  // Horizontal bars as inline SVG, scaled to the largest value
+  private barChart(bars: ChartBar[]): string {
+    const rowHeight = 24;
+    const labelWidth = 130;
+    const barWidth = 260;
+    const width = labelWidth + barWidth + 90;
+    const height = bars.length * rowHeight;
+    const max = Math.max(...bars.map(bar => bar.value), 1);
+
+    const rows = bars.map((bar, index) => {
+      const y = index * rowHeight;
+      const length = bar.value > 0 ? Math.max(Math.round(bar.value / max * barWidth), 2) : 0;
+
+      return `<text x="0" y="${y + 16}">${this.escape(bar.label)}</text>` +
+        `<rect x="${labelWidth}" y="${y + 4}" width="${length}" height="${rowHeight - 8}" rx="3"></rect>` +
+        `<text x="${labelWidth + length + 6}" y="${y + 16}">${this.escape(bar.text)}</text>`;
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img">${rows.join('')}</svg>`;
+  }
+
+  private renderTasks(results: CleanupResult[]): string {
+    const rows = results.map(result => `<tr>
+  <td>${this.escape(result.task)}</td>
+  <td class="number">${result.filesDeleted.toLocaleString()}</td>
+  <td class="number">${formatBytes(result.spaceSaved)}</td>
+  <td class="number">${(result.filesOrganized || 0).toLocaleString()}</td>
+  <td class="number">${(result.skipped?.length || 0).toLocaleString()}</td>
+  <td class="number">${result.errors.length.toLocaleString()}</td>
+  <td class="number">${result.stats ? `${(result.stats.elapsedMs / 1000).toFixed(1)}s` : ''}</td>
+</tr>`);
+
+    return `<table>
+<tr><th>Task</th><th class="number">Files deleted</th><th class="number">Space freed</th><th class="number">Organized</th><th class="number">Skipped</th><th class="number">Errors</th><th class="number">Elapsed</th></tr>
+${rows.join('\n')}
+</table>`;
+  }
+
+  private renderLargestItems(results: CleanupResult[]): string {
+    const items = this.getLargestItems(results, LARGEST_ITEMS);
+
+    if (items.length === 0) {
+      return '';
+    }
+
+    const rows = items.map(item => `<tr>
+  <td class="number">${formatBytes(item.size)}</td>
+  <td>${this.escape(item.action)}</td>
+  <td>${this.escape(item.task)}</td>
+  <td class="path">${this.escape(item.path)}</td>
+</tr>`);
+
+    return `<h2>Largest items</h2>
+<table>
+<tr><th class="number">Size</th><th>Action</th><th>Task</th><th>Path</th></tr>
+${rows.join('\n')}
+</table>`;
+  }
+
+  private renderErrors(results: CleanupResult[]): string {
+    const failed = results.filter(result => result.errors.length > 0);
+
+    if (failed.length === 0) {
+      return '';
+    }
+
+    const groups = failed.map(result => `<h3>${this.escape(result.task)} (${result.errors.length})</h3>
+<ul class="errors">
+${result.errors.map(error => `  <li>${this.escape(error)}</li>`).join('\n')}
+</ul>`);
+
+    return `<h2>Errors</h2>
+${groups.join('\n')}`;
+  }
+
+  private card(label: string, value: string): string {
+    return `<div class="card"><div class="muted">${label}</div><div class="value">${this.escape(value)}</div></div>`;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
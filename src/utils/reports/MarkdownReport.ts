@@ -0,0 +1,85 @@
+import { ReportData, ReportRenderer } from './ReportRenderer';
+import { formatBytes } from '../formatBytes';
+
+const LARGEST_ITEMS = 20;
+
+// GitHub-flavored Markdown, short enough to paste into a ticket
+export class MarkdownReport extends ReportRenderer {
+  render(data: ReportData): string {
+    const { summary } = data;
+    const lines: string[] = [];
+
+    lines.push('# CleanMyPC Cleanup Report');
+    lines.push('');
+    lines.push(`Generated: ${data.generatedAt.toLocaleString()}`);
+    lines.push('');
+
+    lines.push('## Summary');
+    lines.push('');
+    lines.push('| Files cleaned | Space freed | Files organized | Errors |');
+    lines.push('| ---: | ---: | ---: | ---: |');
+    lines.push(`| ${summary.totalFiles} | ${formatBytes(summary.totalSpace)} | ${summary.totalOrganized} | ${summary.totalErrors} |`);
+    lines.push('');
+
+    if (data.reclaimed.length > 0) {
+      lines.push('## Reclaimed space per filesystem');
+      lines.push('');
+      lines.push('| Filesystem | Estimated | Actual |');
+      lines.push('| --- | ---: | ---: |');
+      data.reclaimed.forEach(filesystem => {
+        lines.push(`| ${this.code(filesystem.mountPoint)} | ${formatBytes(filesystem.estimated)} | ${this.formatActual(filesystem)} |`);
+      });
+      lines.push('');
+    }
+
+    lines.push('## Tasks');
+    lines.push('');
+    lines.push('| Task | Files | Space freed | Skipped | Warnings | Elapsed |');
+    lines.push('| --- | ---: | ---: | ---: | ---: | ---: |');
+    data.results.forEach(result => {
+      const elapsed = result.stats ? `${(result.stats.elapsedMs / 1000).toFixed(1)}s` : '';
+      lines.push(`| ${result.task} | ${result.filesDeleted} | ${formatBytes(result.spaceSaved)} | ${result.skipped?.length || 0} | ${result.errors.length} | ${elapsed} |`);
+    });
+    lines.push('');
+
+    const largest = this.getLargestItems(data.results, LARGEST_ITEMS);
+    if (largest.length > 0) {
+      lines.push('## Largest items');
+      lines.push('');
+      lines.push('| Size | Action | Task | Path |');
+      lines.push('| ---: | --- | --- | --- |');
+      largest.forEach(item => {
+        lines.push(`| ${formatBytes(item.size)} | ${item.action} | ${item.task} | ${this.code(item.path)} |`);
+      });
+      lines.push('');
+    }
+
+    const failed = data.results.filter(result => result.errors.length > 0);
+    if (failed.length > 0) {
+      lines.push('## Errors');
+      lines.push('');
+      failed.forEach(result => {
+        lines.push(`### ${result.task}`);
+        lines.push('');
+        result.errors.forEach(error => lines.push(`- ${this.escape(error)}`));
+        lines.push('');
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  // Paths in code spans; a backtick inside one needs a longer fence around it
+  private code(text: string): string {
+    const cell = this.escapeCell(text);
+    return text.includes('`') ? `\`\` ${cell} \`\`` : `\`${cell}\``;
+  }
+
+  private escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[\\`*_<>[\]]/g, '\\$&').replace(/[\r\n]+/g, ' ');
+  }
+}
@@ -0,0 +1,53 @@
+import { CleanupResult, ReclaimedSpace } from '../../CleanupManager';
+import { formatBytes } from '../formatBytes';
+
+export type ReportFormat = 'txt' | 'json' | 'html' | 'md' | 'csv';
+
+export const REPORT_FORMATS: ReportFormat[] = ['txt', 'json', 'html', 'md', 'csv'];
+
+export interface ReportSummary {
+  totalFiles: number;
+  totalSpace: number;
+  totalOrganized: number;
+  totalErrors: number;
+}
+
+// Everything a report is rendered from
+export interface ReportData {
+  generatedAt: Date;
+  summary: ReportSummary;
+  reclaimed: ReclaimedSpace[];
+  results: CleanupResult[];
+}
+
+export interface ReportItem {
+  task: string;
+  action: string; // what happened to the file, or 'found' for large files that were only reported
+  path: string;
+  size: number;
+}
+
+/**
+ * Turns the results of a run into the text of one report format. Renderers
+ * only build strings; ReportGenerator picks the renderer and writes the file.
+ */
+export abstract class ReportRenderer {
+  abstract render(data: ReportData): string;
+
+  // The biggest files the run affected, and large files it only found, biggest first
+  protected getLargestItems(results: CleanupResult[], limit: number): ReportItem[] {
+    const items: ReportItem[] = [];
+
+    results.forEach(result => {
+      (result.files || []).forEach(file => items.push({ task: result.task, action: file.action, path: file.path, size: file.size }));
+      (result.largeFiles || []).forEach(file => items.push({ task: result.task, action: 'found', path: file.path, size: file.size }));
+    });
+
+    return items.sort((a, b) => b.size - a.size).slice(0, limit);
+  }
+
+  // Free space can shrink during a run when other programs write to the disk
+  protected formatActual(filesystem: ReclaimedSpace): string {
+    return filesystem.actual === undefined ? 'not measured' : formatBytes(filesystem.actual);
+  }
+}
@@ -0,0 +1,140 @@
+import { formatBytes } from '../formatBytes';
+import { ReportData, ReportRenderer } from './ReportRenderer';
+
+// The plain text report, with every detail a task reports
+export class TextReport extends ReportRenderer {
+  render(data: ReportData): string {
+    const { summary, reclaimed, results } = data;
+    const lines: string[] = [];
+
+    lines.push('='.repeat(60));
+    lines.push('CleanMyPC - Cleanup Report');
+    lines.push('='.repeat(60));
+    lines.push(`Generated: ${data.generatedAt.toLocaleString()}`);
+    lines.push('');
+
+    lines.push('SUMMARY:');
+    lines.push('-'.repeat(30));
+    lines.push(`Total files cleaned: ${summary.totalFiles}`);
+    lines.push(`Total space freed: ${formatBytes(summary.totalSpace)}`);
+    lines.push(`Total files organized: ${summary.totalOrganized}`);
+    lines.push(`Total errors: ${summary.totalErrors}`);
+    lines.push('');
+
+    if (reclaimed.length > 0) {
+      lines.push('RECLAIMED SPACE PER FILESYSTEM:');
+      lines.push('-'.repeat(30));
+      reclaimed.forEach(filesystem => {
+        const free = filesystem.actual !== undefined ? ` (free space ${formatBytes(filesystem.freeBefore!)} -> ${formatBytes(filesystem.freeAfter!)})` : '';
+        lines.push(`${filesystem.mountPoint}: estimated ${formatBytes(filesystem.estimated)}, actual ${this.formatActual(filesystem)}${free}`);
+      });
+      lines.push('');
+    }
+
+    lines.push('DETAILED RESULTS:');
+    lines.push('-'.repeat(30));
+
+    results.forEach(result => {
+      lines.push(`\n${result.task.toUpperCase()}:`);
+      lines.push(`  Files deleted: ${result.filesDeleted}`);
+      lines.push(`  Space saved: ${formatBytes(result.spaceSaved)}`);
+      
+      if (result.filesOrganized !== undefined) {
+        lines.push(`  Files organized: ${result.filesOrganized}`);
+      }
+      
+      if (result.stats) {
+        lines.push(`  Elapsed: ${result.stats.elapsedMs} ms (${result.stats.entriesVisited} entries visited, ${result.stats.statCalls} stat calls)`);
+      }
+      
+      if (result.largeFiles && result.largeFiles.length > 0) {
+        lines.push(`  Large files found: ${result.largeFiles.length}`);
+        result.largeFiles.forEach(file => {
+          lines.push(`    - ${file.path} (${formatBytes(file.size)})`);
+        });
+      }
+      
+      if (result.rules && result.rules.length > 0) {
+        lines.push(`  Rules (${result.rules.length}):`);
+        result.rules.forEach(rule => {
+          lines.push(`    - ${rule.name} [${rule.action}]: ${rule.filesProcessed} of ${rule.filesMatched} matched files, ${formatBytes(rule.spaceSaved)} freed`);
+        });
+      }
+      
+      if (result.thumbnailsKept !== undefined) {
+        lines.push(`  Thumbnails kept: ${result.thumbnailsKept}`);
+      }
+      
+      if (result.filesLinked !== undefined) {
+        lines.push(`  Files hardlinked: ${result.filesLinked}`);
+      }
+      
+      if (result.duplicates && result.duplicates.length > 0) {
+        lines.push(`  Duplicate sets (${result.duplicates.length}):`);
+        result.duplicates.forEach(set => {
+          lines.push(`    - ${set.files.length} copies of ${formatBytes(set.size)}, ${formatBytes(set.wastedBytes)} wasted (sha256 ${set.hash.slice(0, 12)})`);
+          set.files.forEach(file => {
+            lines.push(`        ${file.path}`);
+          });
+        });
+      }
+      
+      if (result.packageCaches && result.packageCaches.length > 0) {
+        lines.push(`  Package caches (${result.packageCaches.length}):`);
+        result.packageCaches.forEach(cache => {
+          lines.push(`    - ${cache.ecosystem} ${cache.path}: ${cache.itemsEvicted} entries, ${formatBytes(cache.spaceSaved)} freed`);
+        });
+      }
+      
+      if (result.trashVolumes && result.trashVolumes.length > 0) {
+        lines.push(`  Trash volumes (${result.trashVolumes.length}):`);
+        result.trashVolumes.forEach(volume => {
+          lines.push(`    - ${volume.mountPoint} ${volume.path}: ${volume.items} items, ${formatBytes(volume.size)}; ${volume.itemsDeleted} removed, ${formatBytes(volume.spaceSaved)} freed`);
+        });
+      }
+      
+      if (result.browserProfiles && result.browserProfiles.length > 0) {
+        lines.push(`  Browser profiles (${result.browserProfiles.length}):`);
+        result.browserProfiles.forEach(profile => {
+          const outcome = !profile.selected ? 'not selected'
+            : profile.skippedReason ? `skipped (${profile.skippedReason})`
+            : `${profile.filesDeleted} files, ${formatBytes(profile.spaceSaved)}`;
+          lines.push(`    - ${profile.browser}:${profile.profile} "${profile.name}" ${profile.path}: ${outcome}`);
+        });
+      }
+      
+      if (result.browserData && result.browserData.length > 0) {
+        lines.push(`  Browser data (${result.browserData.length} profiles):`);
+        result.browserData.forEach(profile => {
+          const outcome = profile.skippedReason
+            ? `skipped (${profile.skippedReason})`
+            : `${profile.historyDeleted} history entries, ${profile.cookiesDeleted} cookies, ${profile.sitesCleared} sites, ${formatBytes(profile.spaceSaved)} freed`;
+          lines.push(`    - ${profile.browser}:${profile.profile} "${profile.name}": ${outcome}`);
+        });
+      }
+      
+      if (result.devProjects && result.devProjects.length > 0) {
+        lines.push(`  Stale projects (${result.devProjects.length}):`);
+        result.devProjects.forEach(project => {
+          lines.push(`    - ${project.path} [${project.type}] ${formatBytes(project.size)}, last active ${new Date(project.lastActivity).toLocaleDateString()}`);
+        });
+      }
+      
+      if (result.skipped && result.skipped.length > 0) {
+        lines.push(`  Skipped (${result.skipped.length}):`);
+        result.skipped.forEach(item => {
+          lines.push(`    - ${item.path} (skipped: ${item.reason})`);
+        });
+      }
+      
+      if (result.errors.length > 0) {
+        lines.push(`  Errors (${result.errors.length}):`);
+        result.errors.forEach(error => {
+          lines.push(`    - ${error}`);
+        });
+      }
+    });
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,87 @@
+import { execFile, ExecFileException } from 'child_process';
+import { ScheduleBackend, ScheduledJob } from './ScheduleBackend';
+
+const CRONTAB_TIMEOUT_MS = 30000;
+
+// One line per job in the user's crontab, tagged with a trailing comment so it can be found again
+export class CrontabBackend extends ScheduleBackend {
+  readonly name = 'cron';
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.crontab(['-l']);
+      return true;
+    } catch (error) {
+      // crontab -l exits with 1 when the user has no crontab yet, which is fine
+      return (error as ExecFileException).code === 1;
+    }
+  }
+
+  async install(job: ScheduledJob): Promise<void> {
+    const lines = (await this.readCrontab()).filter(line => !this.isJobLine(line, job));
+    lines.push(`@${job.frequency} ${job.command.map(arg => this.quote(arg)).join(' ')} ${this.getTag(job)}`);
+
+    await this.writeCrontab(lines);
+  }
+
+  async uninstall(job: ScheduledJob): Promise<void> {
+    const lines = await this.readCrontab();
+    const remaining = lines.filter(line => !this.isJobLine(line, job));
+
+    if (remaining.length !== lines.length) {
+      await this.writeCrontab(remaining);
+    }
+  }
+
+  async isInstalled(job: ScheduledJob): Promise<boolean> {
+    return (await this.readCrontab()).some(line => this.isJobLine(line, job));
+  }
+
+  describe(job: ScheduledJob): string {
+    return `crontab (${this.getTag(job)})`;
+  }
+
+  private getTag(job: ScheduledJob): string {
+    return `# cleanmypc:${job.id}`;
+  }
+
+  private isJobLine(line: string, job: ScheduledJob): boolean {
+    return line.trimEnd().endsWith(this.getTag(job));
+  }
+
+  // The command is run by /bin/sh, and cron itself turns unescaped % into newlines
+  private quote(arg: string): string {
+    const quoted = /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+    return quoted.replace(/%/g, '\\%');
+  }
+
+  private async readCrontab(): Promise<string[]> {
+    try {
+      const content = await this.crontab(['-l']);
+      return content.split('\n').filter((line, index, lines) => line || index < lines.length - 1);
+    } catch (error) {
+      if ((error as ExecFileException).code === 1) {
+        return [];
+      }
+      throw new Error(`crontab -l failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async writeCrontab(lines: string[]): Promise<void> {
+    await this.crontab(['-'], lines.length > 0 ? lines.join('\n') + '\n' : '');
+  }
+
+  private crontab(args: string[], input?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = execFile('crontab', args, { timeout: CRONTAB_TIMEOUT_MS }, (error, stdout) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(stdout);
+        }
+      });
+
+      child.stdin?.end(input);
+    });
+  }
+}
@@ -0,0 +1,34 @@
+export type ScheduleFrequency = 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+export const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = ['hourly', 'daily', 'weekly', 'monthly'];
+
+export interface ScheduledJob {
+  id: string; // lowercase letters, digits and dashes; names the timer units or tags the crontab line
+  frequency: ScheduleFrequency;
+  tasks: string[]; // task ids, every task when empty
+  profile?: string;
+  backend: string;
+  command: string[]; // absolute node binary, CLI script and arguments
+  createdAt: string;
+}
+
+/**
+ * Installs scheduled jobs into one scheduler of the operating system. The
+ * scheduler only starts the command; reports and logs are written by the
+ * scheduled run itself.
+ */
+export abstract class ScheduleBackend {
+  abstract readonly name: string;
+
+  abstract isAvailable(): Promise<boolean>;
+
+  abstract install(job: ScheduledJob): Promise<void>;
+
+  abstract uninstall(job: ScheduledJob): Promise<void>;
+
+  // False when the job was removed from the scheduler by hand
+  abstract isInstalled(job: ScheduledJob): Promise<boolean>;
+
+  // Where the job can be seen outside cleanmypc, e.g. the unit file path
+  abstract describe(job: ScheduledJob): string;
+}
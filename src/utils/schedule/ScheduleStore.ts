@@ -0,0 +1,92 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { OSDetector } from '../OSDetector';
+import { ScheduledJob } from './ScheduleBackend';
+
+export interface ScheduledRun {
+  runId: string;
+  logPath: string;
+  reportPath?: string;
+  startedAt: Date;
+}
+
+// Scheduled jobs in ~/.cleanmypc/schedules.json and the reports and logs of their runs in ~/.cleanmypc/runs
+export class ScheduleStore {
+  static getRunsDirectory(): string {
+    return path.join(ScheduleStore.getBaseDirectory(), 'runs');
+  }
+
+  // Files of one run: runs/<job id>/<run id>.log and .json
+  static getRunPaths(jobId: string, runId: string): { logPath: string; reportPath: string } {
+    const runDir = path.join(ScheduleStore.getRunsDirectory(), jobId);
+
+    return {
+      logPath: path.join(runDir, `${runId}.log`),
+      reportPath: path.join(runDir, `${runId}.json`)
+    };
+  }
+
+  private static getBaseDirectory(): string {
+    return path.join(OSDetector.getHomeDirectory(), '.cleanmypc');
+  }
+
+  async list(): Promise<ScheduledJob[]> {
+    try {
+      const jobs = await fs.readJson(this.getStorePath());
+      return Array.isArray(jobs) ? jobs : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async get(id: string): Promise<ScheduledJob | undefined> {
+    return (await this.list()).find(job => job.id === id);
+  }
+
+  async add(job: ScheduledJob): Promise<void> {
+    const jobs = (await this.list()).filter(existing => existing.id !== job.id);
+    await this.save([...jobs, job]);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.save((await this.list()).filter(job => job.id !== id));
+  }
+
+  async getLastRun(jobId: string): Promise<ScheduledRun | null> {
+    const runDir = path.join(ScheduleStore.getRunsDirectory(), jobId);
+
+    let names: string[];
+    try {
+      names = await fs.readdir(runDir);
+    } catch {
+      return null;
+    }
+
+    // Run ids start with a sortable timestamp
+    const logs = names.filter(name => name.endsWith('.log')).sort();
+    const lastLog = logs[logs.length - 1];
+    if (!lastLog) {
+      return null;
+    }
+
+    const runId = lastLog.slice(0, -'.log'.length);
+    const { logPath, reportPath } = ScheduleStore.getRunPaths(jobId, runId);
+    const stats = await fs.stat(logPath);
+
+    return {
+      runId,
+      logPath,
+      reportPath: names.includes(path.basename(reportPath)) ? reportPath : undefined,
+      startedAt: stats.birthtimeMs > 0 ? stats.birthtime : stats.mtime
+    };
+  }
+
+  private async save(jobs: ScheduledJob[]): Promise<void> {
+    await fs.ensureDir(path.dirname(this.getStorePath()));
+    await fs.writeJson(this.getStorePath(), jobs, { spaces: 2 });
+  }
+
+  private getStorePath(): string {
+    return path.join(ScheduleStore.getBaseDirectory(), 'schedules.json');
+  }
+}
@@ -0,0 +1,113 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { promisify } from 'util';
+import { OSDetector } from '../OSDetector';
+import { ScheduleBackend, ScheduledJob } from './ScheduleBackend';
+
+const execFileAsync = promisify(execFile);
+
+// A user .service started by a .timer in the user's systemd instance, no root needed
+export class SystemdTimerBackend extends ScheduleBackend {
+  readonly name = 'systemd';
+
+  async isAvailable(): Promise<boolean> {
+    if (!OSDetector.isLinux()) {
+      return false;
+    }
+
+    // Fails without a running user manager, e.g. in containers or over plain su
+    return (await this.systemctl(['show-environment'])) !== null;
+  }
+
+  async install(job: ScheduledJob): Promise<void> {
+    const unitDir = this.getUnitDirectory();
+
+    await fs.ensureDir(unitDir);
+    await fs.writeFile(path.join(unitDir, this.getUnitName(job, 'service')), this.createService(job));
+    await fs.writeFile(path.join(unitDir, this.getUnitName(job, 'timer')), this.createTimer(job));
+
+    await this.requireSystemctl(['daemon-reload']);
+    await this.requireSystemctl(['enable', '--now', this.getUnitName(job, 'timer')]);
+  }
+
+  async uninstall(job: ScheduledJob): Promise<void> {
+    // The timer may already be gone; the unit files are removed either way
+    await this.systemctl(['disable', '--now', this.getUnitName(job, 'timer')]);
+
+    await fs.remove(path.join(this.getUnitDirectory(), this.getUnitName(job, 'service')));
+    await fs.remove(path.join(this.getUnitDirectory(), this.getUnitName(job, 'timer')));
+
+    await this.systemctl(['daemon-reload']);
+  }
+
+  async isInstalled(job: ScheduledJob): Promise<boolean> {
+    return fs.pathExists(path.join(this.getUnitDirectory(), this.getUnitName(job, 'timer')));
+  }
+
+  describe(job: ScheduledJob): string {
+    return path.join(this.getUnitDirectory(), this.getUnitName(job, 'timer'));
+  }
+
+  private createService(job: ScheduledJob): string {
+    return [
+      '[Unit]',
+      `Description=cleanmypc scheduled cleanup (${job.id})`,
+      '',
+      '[Service]',
+      'Type=oneshot',
+      `ExecStart=${job.command.map(arg => this.quote(arg)).join(' ')}`,
+      'Nice=10',
+      'IOSchedulingClass=idle',
+      ''
+    ].join('\n');
+  }
+
+  private createTimer(job: ScheduledJob): string {
+    return [
+      '[Unit]',
+      `Description=Run cleanmypc cleanup ${job.id} ${job.frequency}`,
+      '',
+      '[Timer]',
+      `OnCalendar=${job.frequency}`,
+      // Catch up on runs missed while the machine was off
+      'Persistent=true',
+      'RandomizedDelaySec=15min',
+      '',
+      '[Install]',
+      'WantedBy=timers.target',
+      ''
+    ].join('\n');
+  }
+
+  // ExecStart= splits on whitespace, understands double quotes and expands % specifiers
+  private quote(arg: string): string {
+    const escaped = arg.replace(/%/g, '%%');
+    return /[\s"'\\]/.test(escaped) ? `"${escaped.replace(/(["\\])/g, '\\$1')}"` : escaped;
+  }
+
+  private getUnitName(job: ScheduledJob, type: 'service' | 'timer'): string {
+    return `cleanmypc-${job.id}.${type}`;
+  }
+
+  private getUnitDirectory(): string {
+    const configHome = process.env.XDG_CONFIG_HOME || path.join(OSDetector.getHomeDirectory(), '.config');
+    return path.join(configHome, 'systemd', 'user');
+  }
+
+  private async requireSystemctl(args: string[]): Promise<void> {
+    if ((await this.systemctl(args)) === null) {
+      throw new Error(`systemctl --user ${args.join(' ')} failed`);
+    }
+  }
+
+  // Returns stdout, or null when systemctl is missing or the command fails
+  private async systemctl(args: string[]): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync('systemctl', ['--user', ...args], { timeout: 30000 });
+      return stdout;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as os from 'os';
+import * as path from 'path';
+import { ExclusionMatcher } from '../src/utils/ExclusionMatcher';
+
+// Holds a .cleanmypcignore, and nested/ a second one that is read after it
+const FIXTURE = path.join(__dirname, 'fixtures', 'exclusions');
+
+const fixturePath = (...segments: string[]) => path.join(FIXTURE, ...segments);
+
+describe('ExclusionMatcher', () => {
+  describe('config exclusions', () => {
+    it('matches a bare pattern against the name at any depth', async () => {
+      const matcher = new ExclusionMatcher(['*.bak']);
+
+      assert.equal(await matcher.isExcluded('/var/tmp/report.bak'), true);
+      assert.equal(await matcher.isExcluded('/var/tmp/deep/down/report.bak'), true);
+      assert.equal(await matcher.isExcluded('/var/tmp/report.txt'), false);
+    });
+
+    it('matches a pattern with a slash against the end of the path', async () => {
+      const matcher = new ExclusionMatcher(['project/*.cache']);
+
+      assert.equal(await matcher.isExcluded('/home/user/project/a.cache'), true);
+      assert.equal(await matcher.isExcluded('/home/user/other/a.cache'), false);
+    });
+
+    it('anchors absolute patterns and expands ~ to the home directory', async () => {
+      const matcher = new ExclusionMatcher(['/srv/keep', '~/photos']);
+
+      assert.equal(await matcher.isExcluded('/srv/keep/file.txt'), true);
+      assert.equal(await matcher.isExcluded('/data/srv/keep/file.txt'), false);
+      assert.equal(await matcher.isExcluded(path.join(os.homedir(), 'photos', 'cat.jpg')), true);
+    });
+
+    it('only matches directories with a trailing slash, and excludes what is below them', async () => {
+      const matcher = new ExclusionMatcher(['node_modules/']);
+
+      assert.equal(await matcher.isExcluded('/work/app/node_modules', false), false);
+      assert.equal(await matcher.isExcluded('/work/app/node_modules', true), true);
+      assert.equal(await matcher.isExcluded('/work/app/node_modules/pkg/index.js'), true);
+    });
+
+    it('lets the last matching rule decide', async () => {
+      const matcher = new ExclusionMatcher(['*.tmp', '!keep.tmp']);
+
+      assert.equal(await matcher.isExcluded('/tmp/drop.tmp'), true);
+      assert.equal(await matcher.isExcluded('/tmp/keep.tmp'), false);
+    });
+
+    it('ignores blank lines and comments', async () => {
+      const matcher = new ExclusionMatcher(['', '   ', '# *.txt']);
+
+      assert.equal(await matcher.isExcluded('/tmp/notes.txt'), false);
+    });
+  });
+
+  describe('.cleanmypcignore files', () => {
+    it('applies the rules of an ignore file to everything below its directory', async () => {
+      const matcher = new ExclusionMatcher();
+
+      assert.equal(await matcher.isExcluded(fixturePath('debug.log')), true);
+      assert.equal(await matcher.isExcluded(fixturePath('deep', 'er', 'debug.log')), true);
+      assert.equal(await matcher.isExcluded(fixturePath('keep.log')), false);
+      assert.equal(await matcher.isExcluded(path.join(FIXTURE, '..', 'outside.log')), false);
+    });
+
+    it('anchors a leading slash to the directory of the ignore file', async () => {
+      const matcher = new ExclusionMatcher();
+
+      assert.equal(await matcher.isExcluded(fixturePath('anchored.txt')), true);
+      assert.equal(await matcher.isExcluded(fixturePath('nested', 'anchored.txt')), false);
+    });
+
+    it('matches patterns with a slash relative to the ignore file', async () => {
+      const matcher = new ExclusionMatcher();
+
+      assert.equal(await matcher.isExcluded(fixturePath('docs', 'draft.tmp')), true);
+      assert.equal(await matcher.isExcluded(fixturePath('nested', 'docs', 'draft.tmp')), false);
+    });
+
+    it('keeps a directory-only rule away from files of the same name', async () => {
+      const matcher = new ExclusionMatcher();
+
+      assert.equal(await matcher.isExcluded(fixturePath('build'), false), false);
+      assert.equal(await matcher.isExcluded(fixturePath('build'), true), true);
+    });
+
+    it('cannot re-include a file below an excluded directory', async () => {
+      const matcher = new ExclusionMatcher();
+
+      assert.equal(await matcher.isExcluded(fixturePath('build', 'keep.log')), true);
+    });
+
+    it('lets a deeper ignore file override the rules above it', async () => {
+      const matcher = new ExclusionMatcher();
+
+      assert.equal(await matcher.isExcluded(fixturePath('nested', 'important.log')), false);
+      assert.equal(await matcher.isExcluded(fixturePath('nested', 'other.log')), true);
+      assert.equal(await matcher.isExcluded(fixturePath('nested', 'cache'), true), true);
+      assert.equal(await matcher.isExcluded(fixturePath('cache'), true), false);
+    });
+
+    it('reads config exclusions before ignore files', async () => {
+      const matcher = new ExclusionMatcher(['keep.log']);
+
+      // The ignore file's !keep.log comes later and wins
+      assert.equal(await matcher.isExcluded(fixturePath('keep.log')), false);
+    });
+  });
+
+  it('filters a list of paths', async () => {
+    const matcher = new ExclusionMatcher(['*.bak']);
+    const paths = ['/tmp/a.bak', '/tmp/b.txt', fixturePath('c.log'), fixturePath('keep.log')];
+
+    assert.deepEqual(await matcher.filter(paths), ['/tmp/b.txt', fixturePath('keep.log')]);
+  });
+});
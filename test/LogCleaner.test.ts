@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogCleaner } from '../src/modules/LogCleaner';
+
+// A /var/log lookalike with live logs, their rotations, and MySQL binlogs in mysql/
+const FIXTURE = path.join(__dirname, 'fixtures', 'logs');
+
+// The family of a file in the fixture, with the live logs next to it as they are on disk
+function familyOf(relativePath: string): string | null {
+  const directory = path.join(FIXTURE, path.dirname(relativePath));
+  const siblings = new Set(fs.readdirSync(directory));
+
+  return LogCleaner.getLogFamily(path.basename(relativePath), family => siblings.has(family));
+}
+
+describe('LogCleaner.getLogFamily', () => {
+  it('returns null for live logs', () => {
+    for (const name of ['syslog', 'auth.log', 'messages', 'app.log']) {
+      assert.equal(familyOf(name), null, name);
+    }
+  });
+
+  it('groups numbered rotations under their live log', () => {
+    assert.equal(familyOf('syslog.1'), 'syslog');
+    assert.equal(familyOf('syslog.2.gz'), 'syslog');
+    assert.equal(familyOf('auth.log.1'), 'auth.log');
+    assert.equal(familyOf('app.log.3.zst'), 'app.log');
+  });
+
+  it('groups date-stamped rotations under their live log', () => {
+    assert.equal(familyOf('messages-20261001'), 'messages');
+    assert.equal(familyOf('messages-20261002.xz'), 'messages');
+  });
+
+  it('accepts any numbered suffix when the live log exists', () => {
+    assert.equal(familyOf('app.log-2'), 'app.log');
+    assert.equal(familyOf('app.log.0001'), 'app.log');
+  });
+
+  it('still recognizes plain rotations whose live log is gone', () => {
+    assert.equal(familyOf('cron.4'), 'cron');
+  });
+
+  it('groups compressed and .old archives under the log they came from', () => {
+    assert.equal(familyOf('dpkg.log.gz'), 'dpkg.log');
+    assert.equal(familyOf('Xorg.0.log.old'), 'Xorg.0.log');
+  });
+
+  it('leaves MySQL binlogs and their index alone', () => {
+    assert.equal(familyOf('mysql/mysql-bin.000122'), null);
+    assert.equal(familyOf('mysql/mysql-bin.000123'), null);
+    assert.equal(familyOf('mysql/mysql-bin.index'), null);
+  });
+
+  it('does not treat zero-padded or long numbers as rotations without a live log', () => {
+    const noLiveLog = () => false;
+
+    assert.equal(LogCleaner.getLogFamily('data.000001', noLiveLog), null);
+    assert.equal(LogCleaner.getLogFamily('data.1234', noLiveLog), null);
+    assert.equal(LogCleaner.getLogFamily('backup-2026', noLiveLog), null);
+  });
+});
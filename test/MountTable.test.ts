@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { MountTable } from '../src/utils/MountTable';
+
+// A /proc/self/mountinfo with virtual filesystems, an escaped mount point, an NFS share and an over-mounted /tmp
+const FIXTURE = path.join(__dirname, 'fixtures', 'mountinfo');
+
+describe('MountTable', () => {
+  describe('parseLine', () => {
+    it('reads the mount point, type, source and device', () => {
+      assert.deepEqual(
+        MountTable.parseLine('26 22 259:3 / /home rw,relatime shared:30 - ext4 /dev/nvme0n1p3 rw'),
+        { mountPoint: '/home', fsType: 'ext4', source: '/dev/nvme0n1p3', device: '259:3' }
+      );
+    });
+
+    it('skips any number of optional fields', () => {
+      const withoutOptional = MountTable.parseLine('29 22 0:45 / /mnt/share rw,relatime - nfs4 server:/export/share rw');
+      const withTwo = MountTable.parseLine('28 22 8:17 / /media/usb rw shared:50 master:7 - vfat /dev/sdb1 rw');
+
+      assert.equal(withoutOptional?.fsType, 'nfs4');
+      assert.equal(withoutOptional?.source, 'server:/export/share');
+      assert.equal(withTwo?.fsType, 'vfat');
+      assert.equal(withTwo?.mountPoint, '/media/usb');
+    });
+
+    it('decodes octal escapes in the mount point', () => {
+      const mount = MountTable.parseLine('28 22 8:17 / /media/user/USB\\040Stick\\134x rw - vfat /dev/sdb1 rw');
+
+      assert.equal(mount?.mountPoint, '/media/user/USB Stick\\x');
+    });
+
+    it('returns null for lines that are not mounts', () => {
+      assert.equal(MountTable.parseLine(''), null);
+      assert.equal(MountTable.parseLine('this line is not a mount'), null);
+      assert.equal(MountTable.parseLine('26 22 259:3 - ext4 /dev/sda1 rw'), null);
+      assert.equal(MountTable.parseLine('26 22 259:3 / /home rw - '), null);
+    });
+  });
+
+  describe('read', () => {
+    it('lists every mount once, the last mount on a point hiding earlier ones', async () => {
+      const mounts = await MountTable.read(FIXTURE);
+      const tmp = mounts.filter(mount => mount.mountPoint === '/tmp');
+
+      assert.equal(mounts.length, 10);
+      assert.equal(tmp.length, 1);
+      assert.equal(tmp[0].device, '0:47');
+    });
+
+    it('returns no mounts when the file cannot be read', async () => {
+      assert.deepEqual(await MountTable.read(path.join(__dirname, 'fixtures', 'missing-mountinfo')), []);
+    });
+  });
+
+  it('leaves virtual filesystems and snap images out of storage', async () => {
+    const mountPoints = (await MountTable.readStorage(FIXTURE)).map(mount => mount.mountPoint);
+
+    assert.deepEqual(mountPoints, ['/', '/home', '/media/user/USB Stick', '/mnt/share', '/tmp', '/home2']);
+  });
+
+  describe('findMount', () => {
+    it('picks the longest mount point containing the path', async () => {
+      const mounts = await MountTable.read(FIXTURE);
+
+      assert.equal(MountTable.findMount('/home/user/file.txt', mounts)?.mountPoint, '/home');
+      assert.equal(MountTable.findMount('/home', mounts)?.mountPoint, '/home');
+      assert.equal(MountTable.findMount('/media/user/USB Stick/photo.jpg', mounts)?.mountPoint, '/media/user/USB Stick');
+      assert.equal(MountTable.findMount('/var/log/syslog', mounts)?.mountPoint, '/');
+    });
+
+    it('does not mistake a sibling with the same prefix for a parent', async () => {
+      const mounts = await MountTable.read(FIXTURE);
+
+      assert.equal(MountTable.findMount('/home2/data', mounts)?.mountPoint, '/home2');
+      assert.equal(MountTable.findMount('/homework', mounts)?.mountPoint, '/');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { TrashItem, TrashStore } from '../src/utils/TrashStore';
+
+// An XDG trash directory whose .trashinfo files cover absolute, encoded and relative paths and broken entries
+const FIXTURE = path.join(__dirname, 'fixtures', 'trash');
+const TOP_DIR = '/media/usb';
+
+async function listItems(): Promise<Map<string, TrashItem>> {
+  const items = await new TrashStore(FIXTURE, TOP_DIR).list();
+  return new Map(items.map(item => [item.name, item]));
+}
+
+describe('TrashStore', () => {
+  describe('reading .trashinfo files', () => {
+    it('reads the original path and the deletion date in local time', async () => {
+      const item = (await listItems()).get('report.txt')!;
+
+      assert.equal(item.originalPath, '/home/user/Documents/report.txt');
+      assert.deepEqual(item.deletionDate, new Date(2026, 9, 1, 12, 30, 45));
+      assert.equal(item.infoPath, path.join(FIXTURE, 'info', 'report.txt.trashinfo'));
+    });
+
+    it('decodes percent-encoded paths and accepts CRLF line endings', async () => {
+      const item = (await listItems()).get('My Notes.txt')!;
+
+      assert.equal(item.originalPath, '/home/user/My Notes é.txt');
+      assert.deepEqual(item.deletionDate, new Date(2026, 9, 2, 8, 0, 0));
+    });
+
+    it('resolves relative paths against the top directory of the volume', async () => {
+      const item = (await listItems()).get('photos')!;
+
+      assert.equal(item.originalPath, path.join(TOP_DIR, 'photos'));
+      assert.equal(item.deletionDate, null);
+    });
+
+    it('trims keys and values and ignores comments', async () => {
+      const item = (await listItems()).get('bad-date.txt')!;
+
+      assert.equal(item.originalPath, '/home/user/bad-date.txt');
+      assert.equal(item.deletionDate, null);
+    });
+
+    it('only reads keys of the [Trash Info] group', async () => {
+      const item = (await listItems()).get('wrong-section.txt')!;
+
+      assert.equal(item.originalPath, null);
+      assert.equal(item.deletionDate, null);
+    });
+
+    it('leaves the original location unknown when the .trashinfo file is missing', async () => {
+      const item = (await listItems()).get('orphan.bin')!;
+
+      assert.equal(item.originalPath, null);
+      assert.equal(item.deletionDate, null);
+    });
+  });
+
+  it('lists every item in files/ with its type and size', async () => {
+    const items = await listItems();
+
+    assert.deepEqual([...items.keys()].sort(), ['My Notes.txt', 'bad-date.txt', 'orphan.bin', 'photos', 'report.txt', 'wrong-section.txt']);
+    assert.equal(items.get('report.txt')!.type, 'file');
+    assert.equal(items.get('report.txt')!.size, 18);
+    assert.equal(items.get('photos')!.type, 'directory');
+    assert.equal(items.get('photos')!.size, 10);
+  });
+
+  it('finds .trashinfo files whose item is gone', async () => {
+    const orphaned = await new TrashStore(FIXTURE, TOP_DIR).listOrphanedInfo();
+
+    assert.deepEqual(orphaned, [path.join(FIXTURE, 'info', 'gone.txt.trashinfo')]);
+  });
+});